@@ -0,0 +1,163 @@
+// src/app/actions/analyze-tweets.test.ts
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "fs";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+// An analysis run is recorded against a local Bluesky AppView stand-in and
+// the deterministic mock model, then replayed with fetch failing, to show a
+// replay needs no network at all.
+interface RecordedExchange {
+  method: string;
+  params: { actor: string; cursor?: string };
+  status: number;
+  body: unknown;
+}
+
+const exchanges: RecordedExchange[] = JSON.parse(
+  readFileSync(
+    new URL("../../lib/__fixtures__/bluesky/appview.json", import.meta.url),
+    "utf8"
+  )
+);
+
+let server: Server;
+let fixtureDir: string;
+
+// Lets a test make image loading, the last step before the model call, fail
+const imageFailure = vi.hoisted(() => ({ error: null as Error | null }));
+vi.mock("@/lib/post-images", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/post-images")>();
+  return {
+    ...actual,
+    loadPostImages: async (
+      ...args: Parameters<typeof actual.loadPostImages>
+    ) => {
+      if (imageFailure.error) throw imageFailure.error;
+      return actual.loadPostImages(...args);
+    },
+  };
+});
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url!, "http://localhost");
+    const method = url.pathname.replace(/^\/xrpc\//, "");
+    const params = Object.fromEntries(url.searchParams);
+    const exchange = exchanges.find(
+      (candidate) =>
+        candidate.method === method &&
+        candidate.params.actor === params.actor &&
+        candidate.params.cursor === params.cursor
+    );
+    response.writeHead(exchange?.status ?? 501, {
+      "content-type": "application/json",
+    });
+    response.end(JSON.stringify(exchange?.body ?? { error: "NoFixture" }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+
+  const { port } = server.address() as AddressInfo;
+  fixtureDir = mkdtempSync(path.join(tmpdir(), "analysis-fixtures-"));
+  vi.stubEnv("BLUESKY_APPVIEW_URL", `http://127.0.0.1:${port}`);
+  vi.stubEnv("FIXTURE_DIR", fixtureDir);
+  vi.stubEnv("LLM_PROVIDER", "mock");
+  vi.stubEnv("CACHE_STORE", "memory");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(fixtureDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  imageFailure.error = null;
+});
+
+// What the UI does for one account: analyse it, then look up its avatar.
+// Modules are loaded fresh so the in-memory cache starts out empty.
+async function runAnalysis() {
+  vi.resetModules();
+  const { analyseUser } = await import("./analyze-tweets");
+  const { resolveAvatarUrl } = await import("./resolve-avatar");
+  const analysis = await analyseUser("ada.bsky.social");
+  const avatarUrl = await resolveAvatarUrl("ada.bsky.social", "bluesky");
+  return { analysis, avatarUrl };
+}
+
+describe("analysis record/replay", () => {
+  it("replays a recorded analysis run without network access", async () => {
+    vi.stubEnv("FIXTURE_MODE", "record");
+    const recorded = await runAnalysis();
+
+    expect(recorded.analysis.isError).toBe(false);
+    expect(recorded.avatarUrl).toBe(
+      "https://cdn.bsky.app/img/avatar/plain/did:plc:ada3kq7/bafkava@jpeg"
+    );
+    expect(readdirSync(fixtureDir).sort()).toEqual(["avatar", "llm", "social"]);
+
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockRejectedValue(new Error("Network access during replay"));
+    vi.stubEnv("FIXTURE_MODE", "replay");
+    const replayed = await runAnalysis();
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(replayed.avatarUrl).toBe(recorded.avatarUrl);
+    expect(replayed.analysis).toMatchObject({
+      isError: false,
+      cached: false,
+      lawfulChaotic: recorded.analysis.lawfulChaotic,
+      goodEvil: recorded.analysis.goodEvil,
+      explanation: recorded.analysis.explanation,
+      avatarUrl: recorded.analysis.avatarUrl,
+    });
+  });
+});
+
+describe("analysis single-flight", () => {
+  it("releases the lock when preparing the analysis fails", async () => {
+    vi.stubEnv("FIXTURE_MODE", "off");
+    vi.resetModules();
+    const { analyseUser } = await import("./analyze-tweets");
+
+    imageFailure.error = new Error("Image loading failed");
+    const failed = await analyseUser("ada.bsky.social");
+    imageFailure.error = null;
+    // With the lock still held, this would wait for the leader's result
+    // until the lock expired, far beyond the test timeout
+    const retried = await analyseUser("ada.bsky.social");
+
+    expect(failed).toMatchObject({ isError: true });
+    expect(retried).toMatchObject({ isError: false, cached: false });
+  });
+});
+
+describe("analysis model", () => {
+  it("records the ensemble's models for an aggregated result", async () => {
+    vi.stubEnv("FIXTURE_MODE", "off");
+    vi.resetModules();
+    const { analyseUser } = await import("./analyze-tweets");
+
+    const single = await analyseUser("ada.bsky.social");
+    const ensembled = await analyseUser("ada.bsky.social", {
+      ensemble: { samples: 3 },
+    });
+
+    expect(single.model).toBe("mock:alignment-v1");
+    expect(ensembled.ensemble?.models).toEqual(["mock:alignment-v1"]);
+    expect(ensembled.model).toBe("ensemble:mock:alignment-v1");
+  });
+});
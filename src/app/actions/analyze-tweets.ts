@@ -1,13 +1,94 @@
 // src/app/actions/analyze-tweets.ts
 "use server";
 import "server-only";
-import { dedent } from "ts-dedent";
-import { google } from "@ai-sdk/google";
-import { CoreMessage, generateObject } from "ai";
+import { CoreMessage, DeepPartial, generateObject, streamObject } from "ai";
+import { createStreamableValue, type StreamableValue } from "ai/rsc";
+import { waitUntil } from "@vercel/functions";
+import { headers } from "next/headers";
 import { z } from "zod";
-import { getCachedData, setCachedData } from "@/lib/redis";
+import { getCachedData, setCachedData, takeRateLimit } from "@/lib/redis";
 import { logger } from "@/lib/logger";
-import { getTwitterScraper } from "@/lib/twitter-scraper-service";
+import {
+  fetchFromSources,
+  type SocialPost,
+  type SocialPostContext,
+  type SocialPostImage,
+  type SocialProfile,
+} from "@/lib/social-data-source";
+import { getSocialDataSources } from "@/lib/social-data-chain";
+import { archiveSourceMaterial } from "@/lib/source-archive";
+import { joinFlight } from "@/lib/single-flight";
+import {
+  isAnalysisStale,
+  isRefreshAllowed,
+  stampAnalysisFreshness,
+  type AnalysisFreshness,
+} from "@/lib/analysis-freshness";
+import {
+  getImageBudget,
+  loadPostImages,
+  supportsImageInput,
+  withImageParts,
+} from "@/lib/post-images";
+import {
+  getSocialHandleKey,
+  parseSocialHandle,
+  PLATFORM_LABELS,
+  type SocialHandle,
+  type SocialPlatform,
+} from "@/lib/social-handle";
+import { resolveModel, type ResolvedModel } from "@/lib/llm-provider";
+import {
+  computeAxisConfidence,
+  type AxisConfidence,
+} from "@/lib/alignment-confidence";
+import {
+  aggregateSamples,
+  assignSampleModels,
+  resolveEnsembleConfig,
+  type EnsembleConfig,
+  type EnsembleSummary,
+} from "@/lib/alignment-ensemble";
+import {
+  formatPromptRef,
+  getPromptRef,
+  getPromptTemplate,
+  renderPrompt,
+  type PromptRef,
+  type PromptTemplate,
+} from "@/lib/prompt-registry";
+import {
+  clipContextText,
+  clipPostText,
+  countPostsWithinBudget,
+  describeTweetWindow,
+  getContextCharBudget,
+  resolveTweetWindow,
+  type TweetWindow,
+  type TweetWindowOptions,
+} from "@/lib/tweet-window";
+import {
+  getCandidateLimit,
+  resolveSelectionStrategy,
+  selectTweets,
+  type TweetSelectionStrategy,
+  type TweetSelectionSummary,
+  type TweetSignals,
+} from "@/lib/tweet-selection";
+import {
+  describeAxisScore,
+  describeFrameworkAxes,
+  getChartFramework,
+  type ChartFramework,
+} from "@/lib/chart-frameworks";
+import {
+  bucketTweetsByPeriod,
+  MIN_TWEETS_PER_BUCKET,
+  resolveDriftOptions,
+  type DriftGranularity,
+  type DriftOptions,
+  type DriftPoint,
+} from "@/lib/alignment-drift";
 
 // Type guard to check if error has a status property
 function hasStatus(error: unknown): error is { status: number } {
@@ -19,61 +100,116 @@ function hasStatus(error: unknown): error is { status: number } {
   );
 }
 
-// Define interfaces for Twitter scraper data
-interface ScraperProfile {
-  name?: string;
-  biography?: string; // Common field for bio
-  location?: string;
-  followersCount?: number;
-  tweetsCount?: number;
-  avatar?: string; // From agent-twitter-client README
-  profile_image_url_https?: string; // Fallback from Twitter API
-}
+// Define schema for alignment analysis. Field names are the fixed score slots;
+// the framework supplies what each axis means.
+const createAlignmentSchema = (framework: ChartFramework) =>
+  z.object({
+    explanation: z
+      .string()
+      .describe(
+        "Your brief-ish explanation/reasoning for the given alignment assessment. Max 2-3 sentences."
+      ),
+    lawfulChaotic: z
+      .number()
+      .min(-100)
+      .max(100)
+      .describe(describeAxisScore(framework.horizontal)),
+    goodEvil: z
+      .number()
+      .min(-100)
+      .max(100)
+      .describe(describeAxisScore(framework.vertical)),
+    evidence: z
+      .array(
+        z.object({
+          postId: z
+            .string()
+            .describe("The id attribute of the <post> this citation refers to"),
+          quote: z
+            .string()
+            .describe(
+              "A short verbatim excerpt from that post (max ~20 words)"
+            ),
+          axis: z
+            .enum(["lawfulChaotic", "goodEvil"])
+            .describe(
+              `Which axis this post influenced (lawfulChaotic = ${framework.horizontal.name}, goodEvil = ${framework.vertical.name})`
+            ),
+          contribution: z
+            .number()
+            .min(-100)
+            .max(100)
+            .describe(
+              "How strongly and in which direction this post pushed the score on that axis, using the same sign convention as the axis score"
+            ),
+        })
+      )
+      .max(6)
+      .describe(
+        "The 2-6 posts that most influenced the scores. Leave empty if no posts were provided."
+      ),
+    certainty: z
+      .object({
+        lawfulChaotic: z.number().min(0).max(1),
+        goodEvil: z.number().min(0).max(1),
+      })
+      .describe(
+        "How certain you are of each axis score, from 0 (pure guess) to 1 (unambiguous). Be honest when the posts say little about an axis."
+      ),
+  });
 
-interface ScraperTweet {
-  text: string;
-  created_at?: string; // ISO string
-  timeParsed?: Date; // Possible parsed date from scraper
-  timestamp?: number; // Possible Unix timestamp
-  favorite_count?: number;
-  retweet_count?: number;
-  reply_count?: number; // Common but not guaranteed
-  quote_count?: number; // Common but not guaranteed
-  is_quote_status?: boolean;
-  quoted_status_id_str?: string;
-  quotedStatus?: unknown; // Minimal handling for quoted status
-  is_retweet?: boolean;
-}
+type AlignmentSchemaOutput = z.infer<ReturnType<typeof createAlignmentSchema>>;
 
-// Define schema for alignment analysis
-const AlignmentSchema = z.object({
-  explanation: z
-    .string()
-    .describe(
-      "Your brief-ish explanation/reasoning for the given alignment assessment. Max 2-3 sentences."
-    ),
-  lawfulChaotic: z
-    .number()
-    .min(-100)
-    .max(100)
-    .describe("A score from -100 (very lawful) to 100 (very chaotic)"),
-  goodEvil: z
-    .number()
-    .min(-100)
-    .max(100)
-    .describe("A score from -100 (very good) to 100 (very evil)"),
-});
+export type EvidenceCitation = AlignmentSchemaOutput["evidence"][number] & {
+  url?: string; // Resolved server-side from postId, never produced by the model
+};
 
-export type AlignmentAnalysis = z.infer<typeof AlignmentSchema>;
+// Optional fields were added later; analyses stored before them still type-check
+export type AlignmentAnalysis = Omit<
+  AlignmentSchemaOutput,
+  "evidence" | "certainty"
+> & {
+  evidence?: EvidenceCitation[];
+  certainty?: AlignmentSchemaOutput["certainty"];
+  // Derived server-side from tweet count, model certainty and citation agreement
+  confidence?: AxisConfidence;
+  ensemble?: EnsembleSummary; // Present when scores are the median of several samples
+  prompt?: PromptRef; // Prompt template version that produced this analysis
+  selection?: TweetSelectionSummary; // How the analysed tweets were chosen
+  framework?: string; // Chart framework id; absent means D&D
+  dataSource?: string; // Social data source that supplied the tweets
+  platform?: SocialPlatform; // Absent means X
+  sourceHash?: string; // Archive key of the exact profile and posts analysed
+} & AnalysisFreshness;
 
 export type AlignmentAnalysisResult = AlignmentAnalysis & {
   cached: boolean;
+  isStale?: boolean; // Served from cache while a fresh analysis runs in the background
   isError: boolean;
   avatarUrl?: string;
+  // `provider:modelId` that produced the analysis, or `ensemble:` followed by
+  // the comma-separated models whose samples were aggregated
+  model?: string;
 };
 
+export interface AnalysisOptions {
+  // Overrides ANALYSIS_ENSEMBLE_SAMPLES / ANALYSIS_ENSEMBLE_MODELS
+  ensemble?: Partial<EnsembleConfig>;
+  // Pins the alignment-analysis prompt version, e.g. to compare against an older rubric
+  promptVersion?: string;
+  // Which tweets to analyse; defaults to the 20 most recent
+  tweets?: TweetWindowOptions;
+  // Overrides ANALYSIS_TWEET_SELECTION
+  selection?: TweetSelectionStrategy;
+  framework?: string; // Chart framework id, defaults to D&D
+  // Re-analyse instead of using the cache, unless the cooldown hasn't passed
+  refresh?: boolean;
+}
+
 // Internal types for AI processing
 interface InternalTweet {
+  id: string; // Referenced by <post id="..."> and evidence citations
+  url?: string;
   text: string;
   created_at: string; // ISO string
   favorite_count: number;
@@ -81,6 +217,15 @@ interface InternalTweet {
   reply_count: number;
   quote_count: number;
   is_quote_status: boolean;
+  // Context from other posts, rendered as nested elements of the <post>
+  quoted?: InternalPostContext;
+  in_reply_to?: InternalPostContext;
+  images?: SocialPostImage[]; // Sent as image parts to vision-capable models
+}
+
+interface InternalPostContext {
+  author?: string;
+  text: string;
 }
 
 interface InternalProfileForAI {
@@ -92,158 +237,465 @@ interface InternalProfileForAI {
   tweets: InternalTweet[];
 }
 
-export async function analyseUser(
-  username: string
-): Promise<AlignmentAnalysisResult> {
-  const cleanUsername = username.trim().replace(/^@/, "");
-  const cacheKey = `analysis-gemini-v3:${cleanUsername}`;
+export type AnalysisStage = "fetching-profile" | "fetching-tweets" | "scoring";
+
+export type AnalysisStageEvent = {
+  type: "stage";
+  stage: AnalysisStage;
+  message: string;
+  tweetsFetched?: number;
+  tweetsTotal?: number;
+};
+
+// Events emitted by streamAnalyseUser, in order: stage updates, partial
+// analysis objects while the model is scoring, then exactly one "done".
+export type AnalysisStreamEvent =
+  | AnalysisStageEvent
+  | { type: "partial"; analysis: DeepPartial<AlignmentAnalysis> }
+  | { type: "done"; result: AlignmentAnalysisResult };
+
+// Either a final result (cache hit or early failure) or everything needed to call the model
+type PreparedAnalysis =
+  | { status: "done"; result: AlignmentAnalysisResult }
+  | {
+      status: "ready";
+      cacheKey: string;
+      framework: ChartFramework;
+      schema: ReturnType<typeof createAlignmentSchema>;
+      analysisModel: ResolvedModel;
+      sampleModels: ResolvedModel[]; // One per ensemble sample; just analysisModel when not ensembling
+      // Frees the single-flight lock; call once the result is cached or failed
+      releaseFlight: () => Promise<void>;
+      messages: CoreMessage[];
+      // messages plus the posts' images, when any model in use can see them
+      visionMessages?: CoreMessage[];
+      prompt: PromptRef;
+      avatarUrl?: string;
+      profile: SocialProfile;
+      posts: InternalTweet[]; // The posts sent to the model
+      selection: TweetSelectionSummary;
+      dataSource: string;
+      platform: SocialPlatform;
+      handle: string;
+    };
+
+type FetchedAccount =
+  | { status: "error"; explanation: string }
+  | {
+      status: "ok";
+      source: string;
+      profile: SocialProfile;
+      posts: SocialPost[];
+      avatarUrl?: string;
+    };
+
+// Unrecognised input falls back to the old behaviour: an X handle
+const toSocialHandle = (username: string): SocialHandle =>
+  parseSocialHandle(username) ?? { platform: "x", handle: username.trim() };
+
+// Uncached model runs allowed per client per hour. Cache hits are free, but
+// every option change makes a new cache key, so this is what bounds the cost
+// of an anonymous caller (ANALYSIS_RATE_LIMIT_PER_HOUR, ANALYSIS_DRIFT_RATE_LIMIT_PER_HOUR)
+const DEFAULT_ANALYSIS_RATE_LIMIT = 30;
+const DEFAULT_DRIFT_RATE_LIMIT = 3; // Each drift run is up to 12 model calls
+const RATE_LIMIT_WINDOW_SECONDS = 60 * 60;
 
+const getRateLimit = (name: string, fallback: number) => {
+  const value = Number(process.env[name] || fallback);
+  return Number.isNaN(value) ? fallback : Math.max(0, value);
+};
+
+// The caller's address; behind Vercel's proxy that's the first x-forwarded-for entry
+async function getClientKey(): Promise<string> {
   try {
-    const cachedAnalysisData =
-      await getCachedData<AlignmentAnalysisResult>(cacheKey);
-    if (cachedAnalysisData?.explanation && !cachedAnalysisData.isError) {
-      logger.info(
+    const requestHeaders = await headers();
+    return (
+      requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() ||
+      requestHeaders.get("x-real-ip") ||
+      "unknown"
+    );
+  } catch {
+    return "unknown"; // Outside a request
+  }
+}
+
+// How the platform is named in prompts and user-facing errors
+const getPlatformName = (platform: SocialPlatform) =>
+  platform === "x" ? "X/Twitter" : PLATFORM_LABELS[platform];
+
+// Fetches the profile and up to `collectLimit` tweets that fall inside the
+// window, trying each of the platform's social data sources in turn
+async function fetchSocialAccount(
+  { platform, handle: cleanUsername }: SocialHandle,
+  tweetWindow: TweetWindow,
+  collectLimit: number,
+  onProgress?: (event: AnalysisStageEvent) => void
+): Promise<FetchedAccount> {
+  const platformName = getPlatformName(platform);
+  onProgress?.({
+    type: "stage",
+    stage: "fetching-profile",
+    message: `Fetching profile for @${cleanUsername}`,
+  });
+
+  try {
+    const account = await fetchFromSources(
+      getSocialDataSources(platform),
+      cleanUsername,
+      {
+        tweetWindow,
+        collectLimit,
+        onPostsFetched: (fetched, total) =>
+          onProgress?.({
+            type: "stage",
+            stage: "fetching-tweets",
+            message: `Fetching tweets ${fetched}/${total}`,
+            tweetsFetched: fetched,
+            tweetsTotal: total,
+          }),
+      }
+    );
+
+    if (!account) {
+      logger.warn(
         { username: cleanUsername },
-        `Using cached analysis for @${cleanUsername}`
+        `No profile found for @${cleanUsername}.`
       );
-      return { ...cachedAnalysisData, cached: true, isError: false };
+      return {
+        status: "error",
+        explanation: `Could not retrieve profile for @${cleanUsername}. The user may be private, non-existent, suspended, or ${platformName} access failed.`,
+      };
     }
 
     logger.info(
-      { username: cleanUsername },
-      `Fetching Twitter data for @${cleanUsername} using agent-twitter-client`
+      {
+        username: cleanUsername,
+        source: account.source,
+        tweetCount: account.posts.length,
+      },
+      `Fetched ${account.posts.length} tweets for @${cleanUsername} from ${account.source}`
     );
+    return {
+      status: "ok",
+      source: account.source,
+      profile: account.profile,
+      posts: account.posts.filter(
+        (post) => post.text.trim() || post.images?.length
+      ),
+      avatarUrl: account.profile.avatarUrl,
+    };
+  } catch (fetchError) {
+    logger.error(
+      { err: fetchError, username: cleanUsername },
+      `Error fetching data from ${platformName} for @${cleanUsername}`
+    );
+    let errorExplanation = `An error occurred while fetching data for @${cleanUsername} from ${platformName}.`;
 
-    let userProfileData: ScraperProfile | undefined;
-    const userTweetsData: ScraperTweet[] = [];
-    let fetchedAvatarUrl: string | undefined;
-
-    try {
-      const scraper = await getTwitterScraper();
-      userProfileData = await scraper.getProfile(cleanUsername);
+    if (fetchError instanceof Error) {
+      const message = fetchError.message?.toLowerCase() || "";
 
-      if (!userProfileData) {
-        logger.warn(
-          { username: cleanUsername },
-          `No profile found by agent-twitter-client for @${cleanUsername}.`
-        );
-        return {
-          lawfulChaotic: 0,
-          goodEvil: 0,
-          explanation: `Could not retrieve profile for @${cleanUsername}. The user may be private, non-existent, suspended, or X/Twitter access failed.`,
-          cached: false,
-          isError: true,
-        };
+      if (message.includes("login")) {
+        errorExplanation = `Failed to log in to ${platformName} to fetch data. Please check server credentials/configuration.`;
+      } else if (
+        message.includes("not found") ||
+        message.includes("no user") ||
+        (hasStatus(fetchError) && fetchError.status === 404)
+      ) {
+        errorExplanation = `User @${cleanUsername} not found on ${platformName} or their profile is inaccessible.`;
       }
+    }
 
-      fetchedAvatarUrl =
-        userProfileData.avatar || userProfileData.profile_image_url_https;
-      logger.debug(
-        { username: cleanUsername, userProfileData },
-        "Fetched user profile data."
-      );
+    return { status: "error", explanation: errorExplanation };
+  }
+}
 
-      // Collect tweets from async generator
-      const tweetGenerator = await scraper.getTweets(cleanUsername, 20);
+const toSelectionSignals = (post: SocialPost): TweetSignals => ({
+  text: post.text,
+  likes: post.likes,
+  retweets: post.reposts,
+  replies: post.replies,
+  quotes: post.quotes,
+  isRetweet: !!post.isRetweet,
+  isQuote: !!post.isQuote,
+});
 
-      for await (const tweet of tweetGenerator) {
-        if (tweet.text) {
-          userTweetsData.push(tweet as ScraperTweet);
-        }
-        if (userTweetsData.length >= 20) break;
-      }
+const getPostDate = (post: SocialPost) => new Date(post.createdAt);
 
-      logger.info(
-        { username: cleanUsername, tweetCount: userTweetsData.length },
-        `Fetched ${userTweetsData.length} tweets for @${cleanUsername}`
-      );
-    } catch (fetchError) {
-      logger.error(
-        { err: fetchError, username: cleanUsername },
-        `Error fetching data from Twitter for @${cleanUsername}`
-      );
-      let errorExplanation = `An error occurred while fetching data for @${cleanUsername} from X/Twitter.`;
-
-      if (fetchError instanceof Error) {
-        const message = fetchError.message?.toLowerCase() || "";
-
-        if (message.includes("login")) {
-          errorExplanation =
-            "Failed to log in to X/Twitter to fetch data. Please check server credentials/configuration.";
-        } else if (
-          message.includes("not found") ||
-          message.includes("no user") ||
-          (hasStatus(fetchError) && fetchError.status === 404)
-        ) {
-          errorExplanation = `User @${cleanUsername} not found on X/Twitter or their profile is inaccessible.`;
-        }
-      }
+function toProfileForAI(
+  profile: SocialProfile,
+  posts: SocialPost[]
+): InternalProfileForAI {
+  // Context is added in selection order until ANALYSIS_MAX_CONTEXT_CHARS runs out
+  let contextCharsLeft = getContextCharBudget();
+  const takeContext = (
+    context?: SocialPostContext
+  ): InternalPostContext | undefined => {
+    if (!context?.text.trim()) return undefined;
+    const text = clipContextText(context.text);
+    if (text.length > contextCharsLeft) return undefined;
+    contextCharsLeft -= text.length;
+    return { author: context.author, text };
+  };
+
+  return {
+    name: profile.name,
+    bio: profile.bio,
+    location: profile.location,
+    followers_count: profile.followersCount,
+    statuses_count: profile.postsCount,
+    tweets: posts.map((post, index) => ({
+      id: String(index + 1),
+      url: post.url,
+      text: clipPostText(post.text),
+      created_at: post.createdAt,
+      favorite_count: post.likes,
+      retweet_count: post.reposts,
+      reply_count: post.replies,
+      quote_count: post.quotes,
+      is_quote_status: !!post.isQuote,
+      quoted: takeContext(post.quoted),
+      in_reply_to: takeContext(post.parent),
+      images: post.images?.length ? post.images : undefined,
+    })),
+  };
+}
+
+// Renders the prompt messages with the posts in the order given, dropping the
+// tail of the list once the token budget is used up. Returns the posts that
+// were actually sent.
+function buildAnalysisMessages(
+  promptTemplate: PromptTemplate,
+  framework: ChartFramework,
+  { platform, handle: cleanUsername }: SocialHandle,
+  profileForAI: InternalProfileForAI,
+  tweetSelectionLabel: string,
+  maxPromptTokens: number
+): { messages: CoreMessage[]; posts: InternalTweet[] } {
+  const profileStrForAI = JSON.stringify(
+    {
+      name: profileForAI.name,
+      bio: profileForAI.bio,
+      location: profileForAI.location,
+      followers_count: profileForAI.followers_count,
+      statuses_count: profileForAI.statuses_count,
+    },
+    null,
+    2
+  );
+
+  const contextBlock = (tag: string, context?: InternalPostContext) =>
+    context
+      ? `\n<${tag}${context.author ? ` author="@${context.author}"` : ""}>\n${context.text}\n</${tag}>`
+      : "";
+  // Alt text also reaches text-only models
+  const imagesLine = (images?: SocialPostImage[]) =>
+    images
+      ? `\nImages: ${images.length} attached${images
+          .filter((image) => image.alt)
+          .map((image) => ` [alt: ${image.alt}]`)
+          .join("")}`
+      : "";
+  const postBlocks = profileForAI.tweets.map(
+    (tweet) =>
+      `<post id="${tweet.id}"${tweet.is_quote_status ? ' is_quote="true"' : ""}>${contextBlock("in_reply_to", tweet.in_reply_to)}
+Text: ${tweet.text}${imagesLine(tweet.images)}${contextBlock("quoted", tweet.quoted)}
+Stats: ${tweet.favorite_count} likes, ${tweet.reply_count} replies, ${tweet.retweet_count} retweets, ${tweet.quote_count} quotes
+</post>`
+  );
+  const postsWithinBudget = countPostsWithinBudget(postBlocks, maxPromptTokens);
+  if (postsWithinBudget < postBlocks.length) {
+    logger.info(
+      {
+        username: cleanUsername,
+        kept: postsWithinBudget,
+        fetched: postBlocks.length,
+        maxPromptTokens,
+      },
+      "Truncated tweets to fit the prompt token budget"
+    );
+  }
+  const tweetTexts = postBlocks.slice(0, postsWithinBudget).join("\n\n");
+
+  const renderedPrompt = renderPrompt(promptTemplate, {
+    username: cleanUsername,
+    platform: getPlatformName(platform),
+    profile: profileStrForAI,
+    tweets: tweetTexts || "No public tweets found or provided for analysis.",
+    tweetWindow: tweetSelectionLabel,
+    analystRole: framework.analystRole,
+    chartDescription: framework.chartDescription,
+    axes: describeFrameworkAxes(framework),
+  });
+
+  return {
+    messages: [
+      { role: "system", content: renderedPrompt.system },
+      { role: "user", content: renderedPrompt.user },
+    ],
+    posts: profileForAI.tweets.slice(0, postsWithinBudget),
+  };
+}
+
+async function prepareAnalysis(
+  socialHandle: SocialHandle,
+  options: AnalysisOptions,
+  onProgress?: (event: AnalysisStageEvent) => void,
+  skipCache = false // Background revalidation; ignores the cache and the cooldown
+): Promise<PreparedAnalysis> {
+  const cleanUsername = socialHandle.handle;
+  const analysisModel = resolveModel();
+  const ensembleConfig = resolveEnsembleConfig(options.ensemble);
+  const sampleModels =
+    ensembleConfig.samples > 1
+      ? assignSampleModels(ensembleConfig).map((spec) =>
+          spec ? resolveModel(spec) : analysisModel
+        )
+      : [analysisModel];
+  // Ensemble results are cached separately per sample count and model mix
+  const modelKey =
+    sampleModels.length > 1
+      ? `ensemble-${sampleModels.length}x[${sampleModels
+          .map((m) => m.id)
+          .join(",")}]`
+      : analysisModel.id;
+  // Keyed on the prompt hash so editing a template invalidates old results automatically
+  const promptTemplate = getPromptTemplate(
+    "alignment-analysis",
+    options.promptVersion
+  );
+  const prompt = getPromptRef(promptTemplate);
+  const tweetWindow = resolveTweetWindow(options.tweets);
+  const selectionStrategy = resolveSelectionStrategy(options.selection);
+  const candidateLimit = getCandidateLimit(
+    selectionStrategy,
+    tweetWindow.maxTweets
+  );
+  // Images change what the model sees, so they're part of the cache key
+  const imageBudget = sampleModels.some(supportsImageInput)
+    ? getImageBudget()
+    : 0;
+  const windowKey = `${describeTweetWindow(tweetWindow)}_${tweetWindow.maxPromptTokens}t_${selectionStrategy}${imageBudget ? `_img${imageBudget}` : ""}`;
+  const framework = getChartFramework(options.framework);
+  const cacheKey = `analysis:${formatPromptRef(prompt)}:${framework.id}:${modelKey}:${windowKey}:${getSocialHandleKey(socialHandle)}`;
+
+  const cachedAnalysisData =
+    await getCachedData<AlignmentAnalysisResult>(cacheKey);
+  if (
+    !skipCache &&
+    cachedAnalysisData?.explanation &&
+    !cachedAnalysisData.isError &&
+    // An explicit refresh within the cooldown just gets the latest result
+    !(options.refresh && isRefreshAllowed(cachedAnalysisData))
+  ) {
+    const isStale = isAnalysisStale(cachedAnalysisData);
+    logger.info(
+      { username: cleanUsername, analyzedAt: cachedAnalysisData.analyzedAt },
+      `Using ${isStale ? "stale " : ""}cached analysis for @${cleanUsername}`
+    );
+    if (isStale) revalidateInBackground(socialHandle, options, cacheKey);
+    return {
+      status: "done",
+      result: { ...cachedAnalysisData, cached: true, isStale, isError: false },
+    };
+  }
+
+  // Concurrent requests for the same analysis share one fetch and model call:
+  // the first becomes the leader, the rest wait for its result in the cache
+  const flight = await joinFlight(
+    cacheKey,
+    async () => {
+      const latest = await getCachedData<AlignmentAnalysisResult>(cacheKey);
+      const isNew =
+        latest?.explanation &&
+        !latest.isError &&
+        latest.analyzedAt !== cachedAnalysisData?.analyzedAt;
+      return isNew ? latest : null;
+    },
+    () =>
+      onProgress?.({
+        type: "stage",
+        stage: "scoring",
+        message: `Waiting for an analysis of @${cleanUsername} already in progress`,
+      })
+  );
+  if (flight.status === "shared") {
+    return {
+      status: "done",
+      result: { ...flight.result, cached: true, isError: false },
+    };
+  }
+  const releaseFlight =
+    flight.status === "leader" ? flight.release : async () => {};
 
+  // Anything below may throw (prompt rendering, image loading). The lock must
+  // not outlive that, or every waiter would sit out the full lock TTL.
+  try {
+    // Background refreshes were already paid for by the request that saw a stale result
+    if (
+      !skipCache &&
+      !(await takeRateLimit(
+        `analysis:${await getClientKey()}`,
+        getRateLimit(
+          "ANALYSIS_RATE_LIMIT_PER_HOUR",
+          DEFAULT_ANALYSIS_RATE_LIMIT
+        ),
+        RATE_LIMIT_WINDOW_SECONDS
+      ))
+    ) {
+      await releaseFlight();
+      logger.warn(
+        { username: cleanUsername },
+        "Analysis rate limit reached for client"
+      );
       return {
-        lawfulChaotic: 0,
-        goodEvil: 0,
-        explanation: errorExplanation,
-        cached: false,
-        isError: true,
-        avatarUrl: fetchedAvatarUrl,
+        status: "done",
+        result: {
+          lawfulChaotic: 0,
+          goodEvil: 0,
+          explanation:
+            "Too many new analyses requested. Please try again later.",
+          cached: false,
+          isError: true,
+        },
       };
     }
 
-    const transformedProfileForAI: InternalProfileForAI = {
-      name: userProfileData.name,
-      bio: userProfileData.biography,
-      location: userProfileData.location,
-      followers_count: userProfileData.followersCount,
-      statuses_count: userProfileData.tweetsCount,
-      tweets: userTweetsData
-        .filter((tweet) => tweet.text?.trim())
-        .map((tweet) => {
-          let createdAtDate: Date;
-          if (tweet.timeParsed instanceof Date) {
-            createdAtDate = tweet.timeParsed;
-          } else if (tweet.created_at) {
-            createdAtDate = new Date(tweet.created_at);
-          } else if (typeof tweet.timestamp === "number") {
-            createdAtDate = new Date(tweet.timestamp * 1000);
-          } else {
-            createdAtDate = new Date();
-          }
-
-          return {
-            text: tweet.text,
-            created_at: createdAtDate.toISOString(),
-            favorite_count: tweet.favorite_count ?? 0,
-            retweet_count: tweet.retweet_count ?? 0,
-            reply_count: tweet.reply_count ?? 0,
-            quote_count: tweet.quote_count ?? 0,
-            is_quote_status:
-              tweet.is_quote_status ??
-              (!!tweet.quoted_status_id_str || !!tweet.quotedStatus),
-          };
-        }),
-    };
+    const account = await fetchSocialAccount(
+      socialHandle,
+      tweetWindow,
+      candidateLimit,
+      onProgress
+    );
+    if (account.status === "error") {
+      await releaseFlight();
+      return {
+        status: "done",
+        result: {
+          lawfulChaotic: 0,
+          goodEvil: 0,
+          explanation: account.explanation,
+          cached: false,
+          isError: true,
+        },
+      };
+    }
 
-    const profileStrForAI = JSON.stringify(
-      {
-        name: transformedProfileForAI.name,
-        bio: transformedProfileForAI.bio,
-        location: transformedProfileForAI.location,
-        followers_count: transformedProfileForAI.followers_count,
-        statuses_count: transformedProfileForAI.statuses_count,
-      },
-      null,
-      2
+    // Narrow the collected candidates down to the tweets worth sending to the model
+    const { selected: selectedTweets, summary: selection } = selectTweets(
+      account.posts,
+      toSelectionSignals,
+      selectionStrategy,
+      tweetWindow.maxTweets
+    );
+    logger.info(
+      { username: cleanUsername, ...selection },
+      "Selected tweets for analysis"
     );
 
-    const tweetTexts = transformedProfileForAI.tweets
-      .map(
-        (tweet) =>
-          `<post${tweet.is_quote_status ? ' is_quote="true"' : ""}>
-Text: ${tweet.text}
-Stats: ${tweet.favorite_count} likes, ${tweet.reply_count} replies, ${tweet.retweet_count} retweets, ${tweet.quote_count} quotes
-</post>`
-      )
-      .join("\n\n");
+    const transformedProfileForAI = toProfileForAI(
+      account.profile,
+      selectedTweets
+    );
 
     if (
       transformedProfileForAI.tweets.length === 0 &&
@@ -254,82 +706,558 @@ Stats: ${tweet.favorite_count} likes, ${tweet.reply_count} replies, ${tweet.retw
         { username: cleanUsername },
         "User has no public tweets and minimal profile info for AI analysis."
       );
+      await releaseFlight();
       return {
-        lawfulChaotic: 0,
-        goodEvil: 0,
-        explanation: `User @${cleanUsername} has no public tweets and minimal profile information that could be meaningfully analyzed by AI.`,
-        cached: false,
-        isError: true,
-        avatarUrl: fetchedAvatarUrl,
+        status: "done",
+        result: {
+          lawfulChaotic: 0,
+          goodEvil: 0,
+          explanation: `User @${cleanUsername} has no public tweets and minimal profile information that could be meaningfully analyzed by AI.`,
+          cached: false,
+          isError: true,
+          avatarUrl: account.avatarUrl,
+        },
       };
     }
 
-    const systemPrompt = dedent`
-      You are an expert D&D alignment analyst. Analyze the provided Twitter user profile and their recent tweets to determine their alignment on a D&D-style chart.
-      ...
-    `.trim();
+    const { messages, posts } = buildAnalysisMessages(
+      promptTemplate,
+      framework,
+      socialHandle,
+      transformedProfileForAI,
+      describeTweetWindow(tweetWindow),
+      tweetWindow.maxPromptTokens
+    );
+    // Newest posts' images first; selection doesn't reorder the timeline
+    const images = await loadPostImages(posts, imageBudget);
+
+    return {
+      status: "ready",
+      cacheKey,
+      framework,
+      schema: createAlignmentSchema(framework),
+      analysisModel,
+      sampleModels,
+      releaseFlight,
+      messages,
+      visionMessages: images.length
+        ? withImageParts(messages, images)
+        : undefined,
+      prompt,
+      avatarUrl: account.avatarUrl,
+      profile: account.profile,
+      posts,
+      // Reflect any posts dropped afterwards for the token budget
+      selection: { ...selection, selected: posts.length },
+      dataSource: account.source,
+      platform: socialHandle.platform,
+      handle: cleanUsername,
+    };
+  } catch (error) {
+    await releaseFlight();
+    throw error;
+  }
+}
+
+type ReadyAnalysis = Extract<PreparedAnalysis, { status: "ready" }>;
+
+// Sends the prompt with images to models that take them. If the call fails
+// (provider rejects images, payload too large) it is retried text-only
+// rather than failing the analysis.
+async function withTextOnlyFallback<T>(
+  prepared: ReadyAnalysis,
+  model: ResolvedModel,
+  run: (messages: CoreMessage[]) => Promise<T>
+): Promise<T> {
+  if (!prepared.visionMessages || !supportsImageInput(model)) {
+    return run(prepared.messages);
+  }
+  try {
+    return await run(prepared.visionMessages);
+  } catch (error) {
+    logger.warn(
+      { err: error, username: prepared.handle, model: model.id },
+      "Analysis with images failed; retrying with text only"
+    );
+    return run(prepared.messages);
+  }
+}
+
+// Runs every ensemble sample in parallel and aggregates whichever succeed
+async function runEnsemble(
+  prepared: ReadyAnalysis,
+  cleanUsername: string,
+  onSampleDone?: (completed: number, total: number) => void
+): Promise<AlignmentAnalysisResult> {
+  const { sampleModels, schema } = prepared;
+  let completed = 0;
+
+  const settled = await Promise.allSettled(
+    sampleModels.map(async (sampleModel) => {
+      const { object } = await withTextOnlyFallback(
+        prepared,
+        sampleModel,
+        (messages) =>
+          generateObject({
+            model: sampleModel.model,
+            temperature: 0.5,
+            schema,
+            messages,
+          })
+      );
+      onSampleDone?.(++completed, sampleModels.length);
+      return { object, modelId: sampleModel.id };
+    })
+  );
+
+  const successful = settled.flatMap((outcome) =>
+    outcome.status === "fulfilled" ? [outcome.value] : []
+  );
+  const failures = settled.flatMap((outcome) =>
+    outcome.status === "rejected" ? [outcome.reason] : []
+  );
+  if (failures.length > 0) {
+    logger.warn(
+      { username: cleanUsername, failures: failures.length, err: failures[0] },
+      "Some ensemble samples failed"
+    );
+  }
+  if (successful.length === 0) throw failures[0];
+
+  const { aggregate, summary } = aggregateSamples(
+    successful.map((sample) => sample.object),
+    [...new Set(successful.map((sample) => sample.modelId))]
+  );
+  logger.info(
+    { username: cleanUsername, ...summary },
+    "LLM ensemble analysis complete"
+  );
+
+  return finalizeAnalysis(prepared, aggregate, summary);
+}
+
+// Builds the final result from the model output and writes it to the cache
+async function finalizeAnalysis(
+  prepared: ReadyAnalysis,
+  analysisResultData: AlignmentSchemaOutput,
+  ensemble?: EnsembleSummary
+): Promise<AlignmentAnalysisResult> {
+  const postsById = new Map(prepared.posts.map((post) => [post.id, post]));
+  // Drop citations pointing at posts we never sent, and attach tweet links
+  const evidence = analysisResultData.evidence
+    .filter((citation) => postsById.has(citation.postId))
+    .map((citation) => ({
+      ...citation,
+      url: postsById.get(citation.postId)?.url,
+    }));
+
+  const finalResult: AlignmentAnalysisResult = {
+    ...analysisResultData,
+    evidence,
+    confidence: computeAxisConfidence({
+      tweetCount: prepared.posts.length,
+      scores: analysisResultData,
+      modelCertainty: analysisResultData.certainty,
+      citations: evidence,
+      sampleSpread: ensemble?.spread,
+    }),
+    ensemble,
+    cached: false,
+    isError: false,
+    avatarUrl: prepared.avatarUrl,
+    model: ensemble
+      ? `ensemble:${ensemble.models.join(",")}`
+      : prepared.analysisModel.id,
+    prompt: prepared.prompt,
+    selection: prepared.selection,
+    framework: prepared.framework.id,
+    dataSource: prepared.dataSource,
+    platform: prepared.platform,
+    ...stampAnalysisFreshness(),
+    // Archived so a disputed placement can be traced to its evidence
+    sourceHash: await archiveSourceMaterial({
+      version: 1,
+      platform: prepared.platform,
+      handle: prepared.handle,
+      dataSource: prepared.dataSource,
+      profile: prepared.profile,
+      posts: prepared.posts,
+    }),
+  };
+  await setCachedData(prepared.cacheKey, finalResult, 604_800);
 
-    const userPromptContent = dedent`Username: @${cleanUsername}
+  return finalResult;
+}
 
-<user_profile>
-${profileStrForAI}
-</user_profile>
+function toCriticalErrorResult(
+  error: unknown,
+  cleanUsername: string
+): AlignmentAnalysisResult {
+  logger.error(
+    { err: error, username: cleanUsername },
+    `Critical error in analyseUser for @${cleanUsername}`
+  );
+  let errorMessage = `Error analyzing tweets for @${cleanUsername}. Please check the username and try again.`;
+  if (error instanceof Error) {
+    if (error.message.includes("API key not valid")) {
+      errorMessage = "AI service API key is invalid or missing.";
+    } else if (error.message.toLowerCase().includes("quota")) {
+      errorMessage = "AI service quota exceeded.";
+    }
+  }
+  return {
+    lawfulChaotic: 0,
+    goodEvil: 0,
+    explanation: errorMessage,
+    cached: false,
+    isError: true,
+  };
+}
 
-<user_tweets limit="top_20_recent">
-${tweetTexts || "No public tweets found or provided for analysis."}
-</user_tweets>
+export async function analyseUser(
+  username: string,
+  options: AnalysisOptions = {}
+): Promise<AlignmentAnalysisResult> {
+  return analyseHandle(toSocialHandle(username), options);
+}
 
-Please provide your analysis.`.trim();
+async function analyseHandle(
+  socialHandle: SocialHandle,
+  options: AnalysisOptions,
+  skipCache = false
+): Promise<AlignmentAnalysisResult> {
+  const cleanUsername = socialHandle.handle;
+  let prepared: PreparedAnalysis | undefined;
 
-    const messages: CoreMessage[] = [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPromptContent },
-    ];
+  try {
+    prepared = await prepareAnalysis(
+      socialHandle,
+      options,
+      undefined,
+      skipCache
+    );
+    if (prepared.status === "done") return prepared.result;
+    if (prepared.sampleModels.length > 1) {
+      return await runEnsemble(prepared, cleanUsername);
+    }
+    const { analysisModel, schema } = prepared;
 
     const {
       object: analysisResultData,
       usage,
       finishReason,
-    } = await generateObject({
-      model: google("gemini-1.5-flash-latest"),
-      temperature: 0.5,
-      schema: AlignmentSchema,
-      messages,
-    });
+    } = await withTextOnlyFallback(prepared, analysisModel, (messages) =>
+      generateObject({
+        model: analysisModel.model,
+        temperature: 0.5,
+        schema,
+        messages,
+      })
+    );
 
     logger.info(
-      { username: cleanUsername, usage, finishReason },
-      "Gemini analysis complete"
+      { username: cleanUsername, model: analysisModel.id, usage, finishReason },
+      "LLM analysis complete"
     );
 
-    const finalResult: AlignmentAnalysisResult = {
-      ...analysisResultData,
+    return await finalizeAnalysis(prepared, analysisResultData);
+  } catch (error) {
+    return toCriticalErrorResult(error, cleanUsername);
+  } finally {
+    // The result (if any) is cached by now, so waiters can pick it up
+    if (prepared?.status === "ready") await prepared.releaseFlight();
+  }
+}
+
+// Cache keys with a background refresh already running in this process
+const revalidatingKeys = new Set<string>();
+
+// Re-runs a stale analysis after the cached one has been returned. waitUntil
+// keeps a serverless function alive until the new result is cached.
+function revalidateInBackground(
+  socialHandle: SocialHandle,
+  options: AnalysisOptions,
+  cacheKey: string
+) {
+  if (revalidatingKeys.has(cacheKey)) return;
+  revalidatingKeys.add(cacheKey);
+  waitUntil(
+    analyseHandle(socialHandle, options, true)
+      .then((result) =>
+        logger.info(
+          { username: socialHandle.handle, isError: result.isError },
+          "Background refresh of stale analysis finished"
+        )
+      )
+      .finally(() => revalidatingKeys.delete(cacheKey))
+  );
+}
+
+// Streaming variant of analyseUser. Returns immediately; progress is delivered
+// through the streamable value and always ends with a single "done" event.
+export async function streamAnalyseUser(
+  username: string,
+  options: AnalysisOptions = {}
+): Promise<{ events: StreamableValue<AnalysisStreamEvent> }> {
+  const socialHandle = toSocialHandle(username);
+  const cleanUsername = socialHandle.handle;
+  const events = createStreamableValue<AnalysisStreamEvent>();
+
+  (async () => {
+    let prepared: PreparedAnalysis | undefined;
+    try {
+      prepared = await prepareAnalysis(socialHandle, options, (event) =>
+        events.update(event)
+      );
+      if (prepared.status === "done") {
+        events.done({ type: "done", result: prepared.result });
+        return;
+      }
+      const { analysisModel, sampleModels, schema } = prepared;
+
+      events.update({
+        type: "stage",
+        stage: "scoring",
+        message: `Scoring alignment for @${cleanUsername}`,
+      });
+
+      // Ensemble samples run in parallel, so report per-sample progress instead of partials
+      if (sampleModels.length > 1) {
+        const result = await runEnsemble(
+          prepared,
+          cleanUsername,
+          (completed, total) =>
+            events.update({
+              type: "stage",
+              stage: "scoring",
+              message: `Scoring sample ${completed}/${total}`,
+            })
+        );
+        events.done({ type: "done", result });
+        return;
+      }
+
+      // A text-only retry streams its partials over the failed attempt's
+      const { analysisResultData, usage } = await withTextOnlyFallback(
+        prepared,
+        analysisModel,
+        async (messages) => {
+          const { partialObjectStream, object, usage } = streamObject({
+            model: analysisModel.model,
+            temperature: 0.5,
+            schema,
+            messages,
+          });
+          for await (const partial of partialObjectStream) {
+            events.update({ type: "partial", analysis: partial });
+          }
+          return { analysisResultData: await object, usage: await usage };
+        }
+      );
+      logger.info(
+        { username: cleanUsername, model: analysisModel.id, usage },
+        "LLM streaming analysis complete"
+      );
+
+      events.done({
+        type: "done",
+        result: await finalizeAnalysis(prepared, analysisResultData),
+      });
+    } catch (error) {
+      events.done({
+        type: "done",
+        result: toCriticalErrorResult(error, cleanUsername),
+      });
+    } finally {
+      if (prepared?.status === "ready") await prepared.releaseFlight();
+    }
+  })();
+
+  return { events: events.value };
+}
+
+export interface DriftAnalysisOptions extends DriftOptions {
+  promptVersion?: string;
+  framework?: string;
+  tweets?: TweetWindowOptions; // maxTweets defaults to 200 so older periods are covered
+  selection?: TweetSelectionStrategy;
+}
+
+export type AlignmentDriftResult = {
+  granularity: DriftGranularity;
+  points: DriftPoint[]; // Oldest first
+  cached: boolean;
+  isError: boolean;
+  explanation?: string; // Only set on errors
+  model?: string;
+  prompt?: PromptRef;
+  framework?: string;
+};
+
+// Tweets sent to the model for each period
+const DRIFT_TWEETS_PER_BUCKET = 20;
+const DRIFT_DEFAULT_MAX_TWEETS = 200;
+
+// Scores an account period by period (month or quarter) to show how its
+// alignment moved over time. Each period is a separate, sequential model call.
+export async function analyseUserDrift(
+  username: string,
+  options: DriftAnalysisOptions = {}
+): Promise<AlignmentDriftResult> {
+  const socialHandle = toSocialHandle(username);
+  const cleanUsername = socialHandle.handle;
+  const { granularity, maxBuckets } = resolveDriftOptions(options);
+  const errorResult = (explanation: string): AlignmentDriftResult => ({
+    granularity,
+    points: [],
+    cached: false,
+    isError: true,
+    explanation,
+  });
+
+  try {
+    const analysisModel = resolveModel();
+    const promptTemplate = getPromptTemplate(
+      "alignment-analysis",
+      options.promptVersion
+    );
+    const prompt = getPromptRef(promptTemplate);
+    const tweetWindow = resolveTweetWindow({
+      maxTweets: DRIFT_DEFAULT_MAX_TWEETS,
+      ...options.tweets,
+    });
+    const selectionStrategy = resolveSelectionStrategy(options.selection);
+    const windowKey = `${describeTweetWindow(tweetWindow)}_${tweetWindow.maxPromptTokens}t_${selectionStrategy}`;
+    const framework = getChartFramework(options.framework);
+    const cacheKey = `drift:${formatPromptRef(prompt)}:${framework.id}:${analysisModel.id}:${granularity}x${maxBuckets}:${windowKey}:${getSocialHandleKey(socialHandle)}`;
+
+    const cachedDrift = await getCachedData<AlignmentDriftResult>(cacheKey);
+    if (cachedDrift?.points?.length && !cachedDrift.isError) {
+      logger.info(
+        { username: cleanUsername },
+        `Using cached drift analysis for @${cleanUsername}`
+      );
+      return { ...cachedDrift, cached: true };
+    }
+
+    if (
+      !(await takeRateLimit(
+        `drift:${await getClientKey()}`,
+        getRateLimit(
+          "ANALYSIS_DRIFT_RATE_LIMIT_PER_HOUR",
+          DEFAULT_DRIFT_RATE_LIMIT
+        ),
+        RATE_LIMIT_WINDOW_SECONDS
+      ))
+    ) {
+      logger.warn(
+        { username: cleanUsername },
+        "Drift rate limit reached for client"
+      );
+      return errorResult(
+        "Too many drift analyses requested. Please try again later."
+      );
+    }
+
+    const account = await fetchSocialAccount(
+      socialHandle,
+      tweetWindow,
+      tweetWindow.maxTweets
+    );
+    if (account.status === "error") return errorResult(account.explanation);
+
+    const buckets = bucketTweetsByPeriod(
+      account.posts,
+      getPostDate,
+      granularity,
+      maxBuckets
+    );
+    if (buckets.length < 2) {
+      return errorResult(
+        `Not enough tweet history for @${cleanUsername} to show drift (need at least ${MIN_TWEETS_PER_BUCKET} tweets in two different ${granularity}s).`
+      );
+    }
+
+    const driftSchema = createAlignmentSchema(framework);
+    const points: DriftPoint[] = [];
+    for (const bucket of buckets) {
+      const { selected } = selectTweets(
+        bucket.tweets,
+        toSelectionSignals,
+        selectionStrategy,
+        DRIFT_TWEETS_PER_BUCKET
+      );
+      const { messages, posts } = buildAnalysisMessages(
+        promptTemplate,
+        framework,
+        socialHandle,
+        toProfileForAI(account.profile, selected),
+        `${bucket.period}_${describeTweetWindow({
+          ...tweetWindow,
+          maxTweets: DRIFT_TWEETS_PER_BUCKET,
+        })}`,
+        tweetWindow.maxPromptTokens
+      );
+
+      try {
+        const { object } = await generateObject({
+          model: analysisModel.model,
+          temperature: 0.5,
+          schema: driftSchema,
+          messages,
+        });
+        const postIds = new Set(posts.map((post) => post.id));
+        points.push({
+          period: bucket.period,
+          start: bucket.start,
+          end: bucket.end,
+          tweetCount: posts.length,
+          lawfulChaotic: object.lawfulChaotic,
+          goodEvil: object.goodEvil,
+          confidence: computeAxisConfidence({
+            tweetCount: posts.length,
+            scores: object,
+            modelCertainty: object.certainty,
+            citations: object.evidence.filter((c) => postIds.has(c.postId)),
+          }),
+        });
+      } catch (bucketError) {
+        // One failed period leaves a gap rather than failing the whole series
+        logger.warn(
+          { err: bucketError, username: cleanUsername, period: bucket.period },
+          "Failed to score drift period"
+        );
+      }
+    }
+
+    if (points.length < 2) {
+      return errorResult(
+        `Could not score enough periods for @${cleanUsername} to show drift.`
+      );
+    }
+
+    const result: AlignmentDriftResult = {
+      granularity,
+      points,
       cached: false,
       isError: false,
-      avatarUrl: fetchedAvatarUrl,
+      model: analysisModel.id,
+      prompt,
+      framework: framework.id,
     };
-    await setCachedData(cacheKey, finalResult, 604_800);
-
-    return finalResult;
+    logger.info(
+      { username: cleanUsername, granularity, periods: points.length },
+      "LLM drift analysis complete"
+    );
+    await setCachedData(cacheKey, result, 604_800);
+    return result;
   } catch (error) {
     logger.error(
       { err: error, username: cleanUsername },
-      `Critical error in analyseUser for @${cleanUsername}`
+      `Critical error in analyseUserDrift for @${cleanUsername}`
+    );
+    return errorResult(
+      `Error analyzing alignment drift for @${cleanUsername}. Please try again.`
     );
-    let errorMessage = `Error analyzing tweets for @${cleanUsername}. Please check the username and try again.`;
-    if (error instanceof Error) {
-      if (error.message.includes("API key not valid")) {
-        errorMessage = "AI service API key is invalid or missing.";
-      } else if (error.message.toLowerCase().includes("quota")) {
-        errorMessage = "AI service quota exceeded.";
-      }
-    }
-    return {
-      lawfulChaotic: 0,
-      goodEvil: 0,
-      explanation: errorMessage,
-      cached: false,
-      isError: true,
-    };
   }
 }
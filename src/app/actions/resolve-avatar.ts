@@ -0,0 +1,41 @@
+// src/app/actions/resolve-avatar.ts
+"use server";
+import "server-only";
+import { logger } from "@/lib/logger";
+import { withFixture } from "@/lib/fixtures";
+import { getBlueskyAvatarUrl } from "@/lib/bluesky-source";
+import { getMastodonAvatarUrl } from "@/lib/mastodon-source";
+import type { SocialPlatform } from "@/lib/social-handle";
+
+const AVATAR_LOOKUPS: Partial<
+  Record<SocialPlatform, (handle: string) => Promise<string | undefined>>
+> = {
+  bluesky: getBlueskyAvatarUrl,
+  mastodon: getMastodonAvatarUrl,
+};
+
+/**
+ * Looks up the profile picture of a Bluesky or Mastodon account. Done on the
+ * server so the lookup is recorded and replayed with the rest of an analysis
+ * run (FIXTURE_MODE). Resolves null when there's no lookup for the platform
+ * or it fails; the caller falls back to unavatar.io.
+ */
+export async function resolveAvatarUrl(
+  handle: string,
+  platform: SocialPlatform
+): Promise<string | null> {
+  const lookup = Object.hasOwn(AVATAR_LOOKUPS, platform)
+    ? AVATAR_LOOKUPS[platform]
+    : undefined;
+  if (!lookup) return null;
+  try {
+    return await withFixture(
+      "avatar",
+      { platform, handle },
+      async () => (await lookup(handle)) ?? null
+    );
+  } catch (error) {
+    logger.warn({ err: error, handle, platform }, "Avatar lookup failed");
+    return null;
+  }
+}
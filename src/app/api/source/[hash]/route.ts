@@ -0,0 +1,32 @@
+// src/app/api/source/[hash]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSourceMaterial } from "@/lib/source-archive";
+
+// Returns the archived profile and posts behind an analysis, for audits of
+// disputed placements. The hash is the analysis' `sourceHash`.
+const routeParamsSchema = z.object({
+  hash: z.string().regex(/^[0-9a-f]{64}$/),
+});
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  const validation = routeParamsSchema.safeParse(await params);
+  if (!validation.success) {
+    return NextResponse.json({ error: "Invalid source hash" }, { status: 400 });
+  }
+
+  const record = await getSourceMaterial(validation.data.hash);
+  if (!record) {
+    return NextResponse.json(
+      { error: "No archived source material for this hash" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json(record, {
+    // Content-addressed, so a hash never changes meaning
+    headers: { "Cache-Control": "public, max-age=31536000, immutable" },
+  });
+}
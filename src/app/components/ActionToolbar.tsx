@@ -11,6 +11,9 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Dices, Sparkles } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { parseSocialHandle } from "@/lib/social-handle";
+import { PlatformBadge } from "./PlatformBadge";
 
 interface ActionToolbarProps {
   onAddPlacement: (username: string, isAiAnalysis: boolean) => void;
@@ -39,20 +42,29 @@ export function ActionToolbar({
   };
 
   const isDisabled = !usernameInput.trim() || isProcessing || !isConnected;
+  // Show where the handle will be looked up once it's clearly not an X handle
+  const detectedPlatform = parseSocialHandle(usernameInput)?.platform;
+  const showPlatform = !!detectedPlatform && detectedPlatform !== "x";
 
   return (
     <form className="relative w-full max-w-md" onSubmit={handleSubmit}>
       <Input
-        placeholder="Enter X username (e.g., elonmusk)"
+        placeholder="X, Bluesky or @user@instance handle"
         value={usernameInput}
         onChange={(e) => setUsernameInput(e.target.value)}
-        className="h-12 rounded-full pl-5 pr-28 text-base shadow-sm focus-visible:ring-purple-500 dark:bg-neutral-800 dark:border-neutral-700"
+        className={cn(
+          "h-12 rounded-full pl-5 pr-28 text-base shadow-sm focus-visible:ring-purple-500 dark:bg-neutral-800 dark:border-neutral-700",
+          showPlatform && "pr-48"
+        )}
         autoCapitalize="none"
         spellCheck="false"
         type="text"
         disabled={isProcessing || !isConnected}
       />
-      <div className="absolute right-2 top-1/2 -translate-y-1/2 flex space-x-1.5">
+      <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center space-x-1.5">
+        {showPlatform && (
+          <PlatformBadge platform={detectedPlatform} className="mr-1" />
+        )}
         <TooltipProvider delayDuration={100}>
           <Tooltip>
             <TooltipTrigger asChild>
@@ -9,12 +9,15 @@ import { Button } from "@/components/ui/button";
 import { X, Lock } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
-import type { Placement } from "@/app/types";
+import type { DriftPoint, Placement } from "@/app/types";
+import type { ChartFramework } from "@/lib/chart-frameworks";
+import { PlatformBadge } from "./PlatformBadge";
 
 // ... (rest of the component code is the same)
 
 interface AlignmentChartProps {
   chartRef: React.RefObject<HTMLDivElement | null>; // Fix is here
+  framework: ChartFramework;
   placements: Placement[];
   chartSize: { width: number; height: number };
   imageSize: number;
@@ -26,29 +29,44 @@ interface AlignmentChartProps {
 // The only change is the `chartRef` type in the interface above.
 // For completeness, here is the full component code again.
 
-const ALIGNMENT_LABELS = {
-  Good: "Altruistic, compassionate, puts others first.",
-  Evil: "Selfish, manipulative, or harmful. Motivated by greed, hatred, or power.",
-  Lawful: "Follows rules, traditions, social norms. Values order, loyalty.",
-  Chaotic:
-    "Rebels against convention, values personal freedom, own moral compass.",
-};
+type LabelSide = "top" | "bottom" | "left" | "right";
+
+// The negative pole of each axis sits top/left, matching the score-to-position mapping
+const getFrameworkLabels = (framework: ChartFramework) => [
+  { side: "top" as LabelSide, pole: framework.vertical.negative },
+  { side: "bottom" as LabelSide, pole: framework.vertical.positive },
+  { side: "left" as LabelSide, pole: framework.horizontal.negative },
+  { side: "right" as LabelSide, pole: framework.horizontal.positive },
+];
+
+// Largest halo radius (as % of the chart) drawn for a zero-confidence axis
+const MAX_UNCERTAINTY_RADIUS = 25;
 
-const getLabelClass = (label: keyof typeof ALIGNMENT_LABELS) => {
-  switch (label) {
-    case "Good":
+const getUncertaintyRadius = (confidence: number) =>
+  Math.max(0, 1 - confidence) * MAX_UNCERTAINTY_RADIUS;
+
+// Same mapping as the placement position: scores -100..100 to chart 0..100%
+const driftPointToPosition = (point: DriftPoint) => ({
+  x: (point.lawfulChaotic + 100) / 2,
+  y: (point.goodEvil + 100) / 2,
+});
+
+const getLabelClass = (side: LabelSide) => {
+  switch (side) {
+    case "top":
       return "top-0 left-1/2 -translate-x-1/2 -translate-y-[calc(100%+12px)]";
-    case "Evil":
+    case "bottom":
       return "bottom-0 left-1/2 -translate-x-1/2 translate-y-[calc(100%+12px)]";
-    case "Lawful":
+    case "left":
       return "top-1/2 left-0 -translate-x-[calc(100%+12px)] -translate-y-1/2";
-    case "Chaotic":
+    case "right":
       return "top-1/2 right-0 translate-x-[calc(100%+12px)] -translate-y-1/2";
   }
 };
 
 export function AlignmentChart({
   chartRef,
+  framework,
   placements,
   chartSize,
   imageSize,
@@ -57,18 +75,21 @@ export function AlignmentChart({
 }: AlignmentChartProps) {
   return (
     <div className="relative mt-4">
-      {Object.entries(ALIGNMENT_LABELS).map(([label, description]) => (
+      {getFrameworkLabels(framework).map(({ side, pole }) => (
         <button
-          key={label}
+          key={side}
           onClick={() =>
-            toast.info(`${label} Alignment`, { description, duration: 5000 })
+            toast.info(`${pole.label} (${framework.name})`, {
+              description: pole.description,
+              duration: 5000,
+            })
           }
           className={cn(
             "absolute bg-white dark:bg-neutral-800 px-2.5 py-1 font-semibold md:text-sm text-xs border border-neutral-400 dark:border-neutral-600 rounded-full z-10 shadow",
-            getLabelClass(label as keyof typeof ALIGNMENT_LABELS)
+            getLabelClass(side)
           )}
         >
-          {label}
+          {pole.label}
         </button>
       ))}
 
@@ -90,6 +111,82 @@ export function AlignmentChart({
         <div className="absolute top-1/2 left-0 w-full h-[2px] bg-neutral-600 dark:bg-neutral-500 opacity-40 -translate-y-[1px]" />
         <div className="absolute top-0 left-1/2 w-[2px] h-full bg-neutral-600 dark:bg-neutral-500 opacity-40 -translate-x-[1px]" />
 
+        {/* Drift trajectories: one dot per period, ending at the current avatar */}
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox="0 0 100 100"
+          preserveAspectRatio="none"
+        >
+          {placements.map((img) => {
+            if (!img.drift?.length || img.loading) return null;
+            const path = [...img.drift.map(driftPointToPosition), img.position];
+            return (
+              <g key={`drift-${img.id}`}>
+                <polyline
+                  points={path.map((p) => `${p.x},${p.y}`).join(" ")}
+                  fill="none"
+                  className="stroke-purple-500/60 dark:stroke-purple-400/60"
+                  strokeWidth={2}
+                  strokeDasharray="4 3"
+                  strokeLinejoin="round"
+                  vectorEffect="non-scaling-stroke"
+                />
+                {img.drift.map((point, index) => {
+                  const { x, y } = driftPointToPosition(point);
+                  return (
+                    // Zero-length round-capped line: stays circular despite the stretched viewBox
+                    <line
+                      key={point.period}
+                      x1={x}
+                      y1={y}
+                      x2={x}
+                      y2={y}
+                      className="stroke-purple-600 dark:stroke-purple-300"
+                      strokeWidth={7}
+                      strokeLinecap="round"
+                      vectorEffect="non-scaling-stroke"
+                      opacity={0.35 + (0.65 * (index + 1)) / img.drift!.length}
+                    >
+                      <title>
+                        {`@${img.username} ${point.period}: ${framework.horizontal.shortLabel} ${point.lawfulChaotic}, ${framework.vertical.shortLabel} ${point.goodEvil} (${point.tweetCount} tweets)`}
+                      </title>
+                    </line>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* Uncertainty halos, drawn beneath every avatar */}
+        {placements.map((img) => {
+          const confidence = img.analysis?.confidence;
+          if (!img.isAiPlaced || img.loading || !confidence) return null;
+          const radiusX = getUncertaintyRadius(confidence.lawfulChaotic);
+          const radiusY = getUncertaintyRadius(confidence.goodEvil);
+          return (
+            <motion.div
+              key={`halo-${img.id}`}
+              className="absolute rounded-full bg-purple-500/15 border border-dashed border-purple-500/40 dark:bg-purple-400/15 dark:border-purple-400/40 pointer-events-none"
+              style={{
+                left: `${img.position.x}%`,
+                top: `${img.position.y}%`,
+                width: `max(${radiusX * 2}%, ${imageSize}px)`,
+                height: `max(${radiusY * 2}%, ${imageSize}px)`,
+                transform: "translate(-50%, -50%)",
+              }}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ duration: 0.4 }}
+              title={`Confidence: ${
+                framework.horizontal.shortLabel
+              } ${Math.round(confidence.lawfulChaotic * 100)}%, ${
+                framework.vertical.shortLabel
+              } ${Math.round(confidence.goodEvil * 100)}%`}
+            />
+          );
+        })}
+
         {/* Placements */}
         {placements.map((img) => (
           <motion.div
@@ -119,6 +216,8 @@ export function AlignmentChart({
               })`,
               transition: img.isDragging
                 ? "none"
+                : img.loading
+                ? "transform 0.1s ease, box-shadow 0.1s ease, left 0.3s ease, top 0.3s ease"
                 : "transform 0.1s ease, box-shadow 0.1s ease",
               opacity: img.loading && !img.isAiPlaced ? 0.6 : 1,
             }}
@@ -135,14 +234,14 @@ export function AlignmentChart({
           >
             <NextImage
               src={img.src || "/grid.svg"}
-              alt={`X avatar for ${img.username || "user"}`}
+              alt={`Avatar for ${img.username || "user"}`}
               width={128}
               height={128}
               className={cn(
                 "object-cover w-full h-full bg-white dark:bg-neutral-700",
                 img.loading && !img.isAiPlaced ? "animate-pulse opacity-50" : ""
               )}
-              unoptimized={img.src.includes("unavatar.io")}
+              unoptimized={!img.src.startsWith("/")}
               priority={false}
             />
 
@@ -152,6 +251,14 @@ export function AlignmentChart({
               </div>
             )}
 
+            {!img.loading && img.username && (
+              <PlatformBadge
+                platform={img.platform}
+                variant="dot"
+                className="absolute top-0.5 left-0.5"
+              />
+            )}
+
             {!img.loading && (
               <Button
                 variant="ghost"
@@ -177,8 +284,12 @@ export function AlignmentChart({
               {img.isAiPlaced && !img.loading && (
                 <Lock className="h-2.5 w-2.5 flex-shrink-0 text-purple-300" />
               )}
-              {img.username && (
-                <span className="truncate">@{img.username}</span>
+              {img.loading && img.analysisStage ? (
+                <span className="truncate">{img.analysisStage}</span>
+              ) : (
+                img.username && (
+                  <span className="truncate">@{img.username}</span>
+                )
               )}
             </div>
           </motion.div>
@@ -0,0 +1,63 @@
+// src/app/components/FrameworkSelector.tsx
+"use client";
+
+import React from "react";
+import { ChevronDown, Grid2x2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CHART_FRAMEWORKS, type ChartFramework } from "@/lib/chart-frameworks";
+
+interface FrameworkSelectorProps {
+  framework: ChartFramework;
+  onChange: (frameworkId: string) => void;
+  // Placements only make sense on the framework they were scored with
+  isLocked: boolean;
+}
+
+export function FrameworkSelector({
+  framework,
+  onChange,
+  isLocked,
+}: FrameworkSelectorProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="rounded-full shadow-sm dark:bg-neutral-800 dark:border-neutral-700"
+          title={isLocked ? "Clear the chart to switch frameworks" : undefined}
+          disabled={isLocked}
+        >
+          <Grid2x2 className="h-4 w-4 mr-1.5" />
+          {framework.name}
+          <ChevronDown className="h-3.5 w-3.5 ml-1 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="center">
+        <DropdownMenuLabel>Chart framework</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={framework.id} onValueChange={onChange}>
+          {CHART_FRAMEWORKS.map((option) => (
+            <DropdownMenuRadioItem key={option.id} value={option.id}>
+              <div className="flex flex-col">
+                <span>{option.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {option.horizontal.name} × {option.vertical.name}
+                </span>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
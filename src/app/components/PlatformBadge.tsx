@@ -0,0 +1,57 @@
+// src/app/components/PlatformBadge.tsx
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+import { PLATFORM_LABELS, type SocialPlatform } from "@/lib/social-handle";
+
+const PLATFORM_STYLES: Record<
+  SocialPlatform,
+  { short: string; className: string }
+> = {
+  x: {
+    short: "X",
+    className: "bg-black text-white dark:bg-white dark:text-black",
+  },
+  bluesky: {
+    short: "B",
+    className: "bg-sky-500 text-white",
+  },
+  mastodon: {
+    short: "M",
+    className: "bg-indigo-500 text-white",
+  },
+};
+
+interface PlatformBadgeProps {
+  platform?: SocialPlatform; // Absent means X, like older placements
+  // "dot" is the one-letter corner marker on the chart, "pill" shows the name
+  variant?: "dot" | "pill";
+  className?: string;
+}
+
+export function PlatformBadge({
+  platform = "x",
+  variant = "pill",
+  className,
+}: PlatformBadgeProps) {
+  const style = PLATFORM_STYLES[platform] ?? PLATFORM_STYLES.x;
+  const label = PLATFORM_LABELS[platform] ?? PLATFORM_LABELS.x;
+
+  return (
+    <span
+      title={label}
+      aria-label={`${label} account`}
+      className={cn(
+        "inline-flex items-center justify-center font-semibold leading-none flex-shrink-0",
+        variant === "dot"
+          ? "h-3.5 w-3.5 rounded-full text-[0.5rem] ring-1 ring-white dark:ring-neutral-800"
+          : "rounded-full px-1.5 py-0.5 text-[0.6rem]",
+        style.className,
+        className
+      )}
+    >
+      {variant === "dot" ? style.short : label}
+    </span>
+  );
+}
@@ -9,30 +9,191 @@ import {
   X,
   Sparkles,
   SquareDashedMousePointer,
+  ChevronDown,
+  ExternalLink,
+  TrendingUp,
+  RefreshCw,
 } from "lucide-react";
 import { Button } from "@/components/ui/button"; // Adjust path if your shadcn setup differs
 import { Card } from "@/components/ui/card";
-import type { AlignmentAnalysis } from "../actions/analyze-tweets"; // Adjust path
+import type { DeepPartial } from "ai";
+import type {
+  AlignmentAnalysis,
+  EvidenceCitation,
+} from "../actions/analyze-tweets"; // Adjust path
 import { cn } from "@/lib/utils"; // Adjust path
+import {
+  getChartFramework,
+  getFrameworkAxis,
+  getTraitName,
+  type ChartFramework,
+} from "@/lib/chart-frameworks";
+import type { SocialPlatform } from "@/lib/social-handle";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { PlatformBadge } from "./PlatformBadge";
 // import { Separator } from "@/components/ui/separator"; // Not used in the final version of panel
 
 // This type should match what the panel expects to receive
 export interface PanelAnalysisItem {
   id: string;
   username: string;
+  platform?: SocialPlatform;
   imageSrc: string;
-  analysis: AlignmentAnalysis; // The core AI analysis
+  analysis: DeepPartial<AlignmentAnalysis>; // The core AI analysis, partial while streaming
+  isStreaming?: boolean;
+  stage?: string; // Latest progress message while streaming
+  hasDrift?: boolean; // Drift trajectory already drawn on the chart
+  isLoadingDrift?: boolean;
+  isRefreshing?: boolean; // Re-analysis in flight; the old result stays visible
   timestamp: Date;
 }
 
+// Collapsible list of the posts the model cited for its scores
+function EvidenceCitations({
+  evidence,
+  framework,
+}: {
+  evidence: DeepPartial<EvidenceCitation[]>;
+  framework: ChartFramework;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const citations = evidence.filter(
+    (citation): citation is DeepPartial<EvidenceCitation> => !!citation
+  );
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-1 text-[0.65rem] font-medium text-purple-700 dark:text-purple-300 hover:underline"
+        aria-expanded={isExpanded}
+      >
+        <ChevronDown
+          className={cn(
+            "h-3 w-3 transition-transform",
+            isExpanded && "rotate-180"
+          )}
+        />
+        {citations.length} cited post{citations.length === 1 ? "" : "s"}
+      </button>
+      <AnimatePresence initial={false}>
+        {isExpanded && (
+          <motion.ul
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.2 }}
+            className="mt-1.5 space-y-1.5 overflow-hidden"
+          >
+            {citations.map((citation, index) => (
+              <li
+                key={`${citation.postId}-${index}`}
+                className="rounded border border-purple-200/70 dark:border-purple-500/20 bg-white/60 dark:bg-neutral-900/40 p-1.5"
+              >
+                <p className="italic">&ldquo;{citation.quote}&rdquo;</p>
+                <div className="mt-0.5 flex items-center justify-between gap-2 text-[0.6rem] text-neutral-500 dark:text-neutral-400">
+                  <span>
+                    {citation.axis
+                      ? getFrameworkAxis(framework, citation.axis).shortLabel
+                      : "?"}{" "}
+                    {typeof citation.contribution === "number" &&
+                    citation.contribution > 0
+                      ? "+"
+                      : ""}
+                    {citation.contribution}
+                  </span>
+                  {citation.url && (
+                    <a
+                      href={citation.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-0.5 text-purple-600 dark:text-purple-300 hover:underline"
+                    >
+                      View post
+                      <ExternalLink className="h-2.5 w-2.5" />
+                    </a>
+                  )}
+                </div>
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// "just now", "5m ago", "3h ago", "2d ago"
+function formatAge(iso: string) {
+  const minutes = Math.floor((Date.now() - Date.parse(iso)) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (60 * 24))}d ago`;
+}
+
+// When the analysis was made, plus a re-analyse button that stays disabled
+// until the server's refresh cooldown has passed
+function AnalysisFreshness({
+  item,
+  onReanalyse,
+}: {
+  item: PanelAnalysisItem;
+  onReanalyse: (id: string) => void;
+}) {
+  const { analyzedAt, refreshAvailableAt } = item.analysis;
+  const [isCoolingDown, setIsCoolingDown] = useState(
+    () => !!refreshAvailableAt && Date.parse(refreshAvailableAt) > Date.now()
+  );
+
+  // Re-enable the button once the cooldown runs out
+  useEffect(() => {
+    const remainingMs = refreshAvailableAt
+      ? Date.parse(refreshAvailableAt) - Date.now()
+      : 0;
+    setIsCoolingDown(remainingMs > 0);
+    if (remainingMs <= 0) return;
+    const timer = setTimeout(() => setIsCoolingDown(false), remainingMs);
+    return () => clearTimeout(timer);
+  }, [refreshAvailableAt]);
+
+  return (
+    <div className="mt-2 flex items-center justify-between gap-2 text-[0.65rem] text-neutral-500 dark:text-neutral-400">
+      <span>{analyzedAt ? `Analyzed ${formatAge(analyzedAt)}` : ""}</span>
+      <button
+        type="button"
+        onClick={() => onReanalyse(item.id)}
+        disabled={item.isRefreshing || isCoolingDown}
+        title={
+          isCoolingDown && refreshAvailableAt
+            ? `Available again at ${new Date(
+                refreshAvailableAt
+              ).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+            : undefined
+        }
+        className="flex items-center gap-1 font-medium text-purple-700 dark:text-purple-300 hover:underline disabled:opacity-60 disabled:no-underline"
+      >
+        <RefreshCw
+          className={cn("h-3 w-3", item.isRefreshing && "animate-spin")}
+        />
+        {item.isRefreshing ? "Re-analyzing..." : "Re-analyze"}
+      </button>
+    </div>
+  );
+}
+
 export function AnalysisPanel({
   analyses,
   newAnalysisId,
+  onShowDrift,
+  onReanalyse,
   children,
 }: {
   analyses: Array<PanelAnalysisItem>;
   newAnalysisId: string | null;
+  onShowDrift?: (id: string) => void;
+  onReanalyse?: (id: string) => void;
   children?: React.ReactNode;
 }) {
   const [isOpen, setIsOpen] = useState(false);
@@ -65,34 +226,6 @@ export function AnalysisPanel({
     }
   }, [isOpen]);
 
-  const getAlignmentName = (
-    lawfulChaotic: number,
-    goodEvil: number
-  ): string => {
-    const lcThreshold = 33;
-    const geThreshold = 33;
-
-    const lawfulAxis =
-      lawfulChaotic <= -lcThreshold
-        ? "Lawful"
-        : lawfulChaotic >= lcThreshold
-        ? "Chaotic"
-        : "Neutral";
-    const goodAxis =
-      goodEvil <= -geThreshold
-        ? "Good"
-        : goodEvil >= geThreshold
-        ? "Evil"
-        : "Neutral";
-
-    if (lawfulAxis === "Neutral" && goodAxis === "Neutral")
-      return "True Neutral";
-    if (lawfulAxis === "Neutral") return `${goodAxis} Neutral`; // e.g. Good Neutral
-    if (goodAxis === "Neutral") return `${lawfulAxis} Neutral`; // e.g. Lawful Neutral
-
-    return `${lawfulAxis} ${goodAxis}`;
-  };
-
   return (
     <div className="fixed bottom-4 left-4 z-40 flex flex-row items-end gap-2">
       {" "}
@@ -187,70 +320,166 @@ export function AnalysisPanel({
                       </p>
                     </div>
                   ) : (
-                    analyses.map((item) => (
-                      <motion.div
-                        layout // Animate layout changes for list items
-                        initial={{ opacity: 0, y: 10 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        exit={{ opacity: 0, y: -10 }}
-                        transition={{ duration: 0.2 }}
-                        key={item.id}
-                        id={`analysis-item-${item.id}`}
-                        className="flex gap-3 items-start p-3 rounded-lg bg-white dark:bg-neutral-800/50 border border-neutral-200 dark:border-neutral-700/50 shadow-sm"
-                      >
-                        <div className="flex-shrink-0 mt-0.5">
-                          <div className="relative h-10 w-10 rounded-md overflow-hidden border-2 border-purple-300 dark:border-purple-700">
-                            <Image
-                              src={item.imageSrc || "/placeholder.svg"} // Add a placeholder svg in /public
-                              alt={`@${item.username}`}
-                              fill
-                              sizes="40px"
-                              className="object-cover"
-                              unoptimized={item.imageSrc.includes(
-                                "unavatar.io"
-                              )} // Unavatar is already optimized
-                            />
-                          </div>
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          {" "}
-                          {/* min-w-0 for text ellipsis */}
-                          <div className="flex items-baseline justify-between gap-2">
-                            <span className="font-semibold text-sm truncate text-neutral-800 dark:text-neutral-100">
-                              @{item.username}
-                            </span>
-                            <span className="text-xs text-neutral-500 dark:text-neutral-400 flex-shrink-0">
-                              {new Date(item.timestamp).toLocaleTimeString([], {
-                                hour: "2-digit",
-                                minute: "2-digit",
-                              })}
-                            </span>
+                    analyses.map((item) => {
+                      // Each analysis is labelled with the framework it was scored in
+                      const framework = getChartFramework(
+                        item.analysis.framework
+                      );
+                      const { horizontal, vertical } = framework;
+                      return (
+                        <motion.div
+                          layout // Animate layout changes for list items
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: -10 }}
+                          transition={{ duration: 0.2 }}
+                          key={item.id}
+                          id={`analysis-item-${item.id}`}
+                          className="flex gap-3 items-start p-3 rounded-lg bg-white dark:bg-neutral-800/50 border border-neutral-200 dark:border-neutral-700/50 shadow-sm"
+                        >
+                          <div className="flex-shrink-0 mt-0.5">
+                            <div className="relative h-10 w-10 rounded-md overflow-hidden border-2 border-purple-300 dark:border-purple-700">
+                              <Image
+                                src={item.imageSrc || "/placeholder.svg"} // Add a placeholder svg in /public
+                                alt={`@${item.username}`}
+                                fill
+                                sizes="40px"
+                                className="object-cover"
+                                unoptimized={!item.imageSrc.startsWith("/")} // Remote avatars are served as-is
+                              />
+                            </div>
                           </div>
-                          <div className="mt-1.5 text-xs bg-purple-50 dark:bg-purple-900/30 rounded-md p-2.5 border border-purple-200 dark:border-purple-500/20">
-                            <div className="flex items-center gap-1.5 mb-1.5">
-                              <Sparkles className="h-3.5 w-3.5 text-purple-500 dark:text-purple-400" />
-                              <span className="font-medium text-purple-700 dark:text-purple-300">
-                                {getAlignmentName(
-                                  item.analysis.lawfulChaotic,
-                                  item.analysis.goodEvil
+                          <div className="flex-1 min-w-0">
+                            {" "}
+                            {/* min-w-0 for text ellipsis */}
+                            <div className="flex items-baseline justify-between gap-2">
+                              <span className="flex items-center gap-1.5 min-w-0">
+                                <span className="font-semibold text-sm truncate text-neutral-800 dark:text-neutral-100">
+                                  @{item.username}
+                                </span>
+                                <PlatformBadge platform={item.platform} />
+                              </span>
+                              <span className="text-xs text-neutral-500 dark:text-neutral-400 flex-shrink-0">
+                                {new Date(item.timestamp).toLocaleTimeString(
+                                  [],
+                                  {
+                                    hour: "2-digit",
+                                    minute: "2-digit",
+                                  }
                                 )}
                               </span>
                             </div>
-                            <div className="space-y-0.5 text-neutral-600 dark:text-neutral-300 text-[0.7rem] leading-relaxed">
-                              <span className="block">
-                                <span className="font-medium">L/C:</span>{" "}
-                                {item.analysis.lawfulChaotic}, 
-                                <span className="font-medium">G/E:</span>{" "}
-                                {item.analysis.goodEvil}
-                              </span>
-                              <p className="mt-1">
-                                {item.analysis.explanation}
-                              </p>
+                            <div className="mt-1.5 text-xs bg-purple-50 dark:bg-purple-900/30 rounded-md p-2.5 border border-purple-200 dark:border-purple-500/20">
+                              <div className="flex items-center gap-1.5 mb-1.5">
+                                <Sparkles
+                                  className={cn(
+                                    "h-3.5 w-3.5 text-purple-500 dark:text-purple-400",
+                                    (item.isStreaming || item.isRefreshing) &&
+                                      "animate-pulse"
+                                  )}
+                                />
+                                <span className="font-medium text-purple-700 dark:text-purple-300">
+                                  {typeof item.analysis.lawfulChaotic ===
+                                    "number" &&
+                                  typeof item.analysis.goodEvil === "number"
+                                    ? getTraitName(
+                                        framework,
+                                        item.analysis.lawfulChaotic,
+                                        item.analysis.goodEvil
+                                      )
+                                    : "Analyzing..."}
+                                </span>
+                              </div>
+                              {(item.isStreaming || item.isRefreshing) &&
+                                item.stage && (
+                                  <p className="mb-1 text-[0.65rem] italic text-purple-600/80 dark:text-purple-300/80">
+                                    {item.stage}
+                                  </p>
+                                )}
+                              <div className="space-y-0.5 text-neutral-600 dark:text-neutral-300 text-[0.7rem] leading-relaxed">
+                                <span className="block">
+                                  <span className="font-medium">
+                                    {horizontal.shortLabel}:
+                                  </span>{" "}
+                                  {item.analysis.lawfulChaotic ?? "..."}, 
+                                  <span className="font-medium">
+                                    {vertical.shortLabel}:
+                                  </span>{" "}
+                                  {item.analysis.goodEvil ?? "..."}
+                                </span>
+                                {item.analysis.confidence && (
+                                  <span className="block text-neutral-500 dark:text-neutral-400">
+                                    <span className="font-medium">
+                                      Confidence:
+                                    </span>{" "}
+                                    {horizontal.shortLabel}{" "}
+                                    {Math.round(
+                                      (item.analysis.confidence.lawfulChaotic ??
+                                        0) * 100
+                                    )}
+                                    %, {vertical.shortLabel}{" "}
+                                    {Math.round(
+                                      (item.analysis.confidence.goodEvil ?? 0) *
+                                        100
+                                    )}
+                                    %
+                                  </span>
+                                )}
+                                {item.analysis.ensemble && (
+                                  <span className="block text-neutral-500 dark:text-neutral-400">
+                                    Median of {item.analysis.ensemble.samples}{" "}
+                                    samples (spread ±
+                                    {
+                                      item.analysis.ensemble.spread
+                                        ?.lawfulChaotic
+                                    }{" "}
+                                    {horizontal.shortLabel}, ±
+                                    {item.analysis.ensemble.spread?.goodEvil}{" "}
+                                    {vertical.shortLabel})
+                                  </span>
+                                )}
+                                <p className="mt-1">
+                                  {item.analysis.explanation}
+                                </p>
+                                {!item.isStreaming &&
+                                  !!item.analysis.evidence?.length && (
+                                    <EvidenceCitations
+                                      evidence={item.analysis.evidence}
+                                      framework={framework}
+                                    />
+                                  )}
+                                {!item.isStreaming && onShowDrift && (
+                                  <button
+                                    type="button"
+                                    onClick={() => onShowDrift(item.id)}
+                                    disabled={item.isLoadingDrift}
+                                    className="mt-2 flex items-center gap-1 text-[0.65rem] font-medium text-purple-700 dark:text-purple-300 hover:underline disabled:opacity-60 disabled:no-underline"
+                                  >
+                                    <TrendingUp
+                                      className={cn(
+                                        "h-3 w-3",
+                                        item.isLoadingDrift && "animate-pulse"
+                                      )}
+                                    />
+                                    {item.isLoadingDrift
+                                      ? "Scoring past months..."
+                                      : item.hasDrift
+                                      ? "Refresh drift over time"
+                                      : "Show drift over time"}
+                                  </button>
+                                )}
+                                {!item.isStreaming && onReanalyse && (
+                                  <AnalysisFreshness
+                                    item={item}
+                                    onReanalyse={onReanalyse}
+                                  />
+                                )}
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      </motion.div>
-                    ))
+                        </motion.div>
+                      );
+                    })
                   )}
                 </div>
               </ScrollArea>
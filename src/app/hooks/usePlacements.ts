@@ -5,9 +5,19 @@ import { useState, useEffect, useTransition } from "react";
 import { toast } from "sonner";
 import { useDebounceFunction } from "@/hooks/use-debounce";
 import { logger } from "@/lib/logger";
-import { analyseUser } from "@/app/actions/analyze-tweets";
+import { readStreamableValue } from "ai/rsc";
+import {
+  analyseUserDrift,
+  streamAnalyseUser,
+  type AlignmentAnalysisResult,
+} from "@/app/actions/analyze-tweets";
 import { getBestAvatarUrl } from "@/lib/load-avatar";
 import { getRandomPosition } from "@/lib/utils";
+import { parseSocialHandle, type SocialHandle } from "@/lib/social-handle";
+import {
+  DEFAULT_FRAMEWORK_ID,
+  getChartFramework,
+} from "@/lib/chart-frameworks";
 import {
   initIndexedDB,
   cachePlacementsLocally,
@@ -18,18 +28,23 @@ import {
 import type { Placement, AlignmentAnalysis } from "@/app/types";
 
 // Helper function to convert alignment to a chart position
-const alignmentToPosition = (analysis: AlignmentAnalysis) => {
+const alignmentToPosition = (
+  analysis: Pick<AlignmentAnalysis, "lawfulChaotic" | "goodEvil">
+) => {
   const xPercent = ((analysis.lawfulChaotic + 100) / 200) * 100;
   const yPercent = ((analysis.goodEvil + 100) / 200) * 100;
   return { x: xPercent, y: yPercent };
 };
 
+const FRAMEWORK_STORAGE_KEY = "alignment-chart-framework";
+
 export function usePlacements() {
   const [images, setImages] = useState<Placement[]>([]);
   const [isPageLoading, setIsPageLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
   const [newlyAnalyzedId, setNewlyAnalyzedId] = useState<string | null>(null);
   const [isAnalyzingServer, startServerAnalysisTransition] = useTransition();
+  const [frameworkId, setFrameworkIdState] = useState(DEFAULT_FRAMEWORK_ID);
 
   const debouncedSaveToLocalDB = useDebounceFunction(
     (currentImages: Placement[]) => {
@@ -54,6 +69,7 @@ export function usePlacements() {
               ...item,
               isDragging: false,
               loading: false,
+              isRefreshing: false,
               timestamp: new Date(item.timestamp ?? Date.now()),
             }))
           );
@@ -67,26 +83,41 @@ export function usePlacements() {
       }
     }
     loadInitialPlacements();
+    // The chart framework is a simple preference, so localStorage is enough
+    const savedFrameworkId = window.localStorage.getItem(FRAMEWORK_STORAGE_KEY);
+    if (savedFrameworkId) {
+      setFrameworkIdState(getChartFramework(savedFrameworkId).id);
+    }
   }, []);
 
+  const setFrameworkId = (id: string) => {
+    const framework = getChartFramework(id);
+    setFrameworkIdState(framework.id);
+    window.localStorage.setItem(FRAMEWORK_STORAGE_KEY, framework.id);
+  };
+
   useEffect(() => {
     if (!isPageLoading) {
       debouncedSaveToLocalDB(images);
     }
   }, [images, isPageLoading, debouncedSaveToLocalDB]);
 
-  const isUsernameDuplicate = (username: string) =>
+  // The same handle can belong to different people on different platforms
+  const isAccountDuplicate = ({ platform, handle }: SocialHandle) =>
     images.some(
-      (img) => img.username?.toLowerCase() === username.toLowerCase()
+      (img) =>
+        (img.platform ?? "x") === platform &&
+        img.username?.toLowerCase() === handle.toLowerCase()
     );
 
   const addPlacement = async (username: string, isAiAnalysis: boolean) => {
-    const cleanUsername = username.trim().replace(/^@/, "");
-    if (!cleanUsername) {
+    const socialHandle = parseSocialHandle(username);
+    if (!socialHandle) {
       toast.error("Please enter a username.");
       return;
     }
-    if (isUsernameDuplicate(cleanUsername)) {
+    const { platform, handle: cleanUsername } = socialHandle;
+    if (isAccountDuplicate(socialHandle)) {
       toast.error(`@${cleanUsername} is already on the chart.`);
       return;
     }
@@ -100,6 +131,7 @@ export function usePlacements() {
       isDragging: false,
       loading: true,
       username: cleanUsername,
+      platform,
       isAiPlaced: isAiAnalysis,
       timestamp: new Date(),
     };
@@ -110,14 +142,57 @@ export function usePlacements() {
       // AI Analysis Flow
       startServerAnalysisTransition(async () => {
         try {
-          const analysisResult = await analyseUser(cleanUsername);
-          if (analysisResult.isError || !analysisResult.explanation) {
-            throw new Error(analysisResult.explanation || "Analysis failed.");
+          const { events } = await streamAnalyseUser(cleanUsername, {
+            framework: frameworkId,
+          });
+          let analysisResult: AlignmentAnalysisResult | undefined;
+
+          for await (const event of readStreamableValue(events)) {
+            if (!event) continue;
+            if (event.type === "stage") {
+              setImages((prev) =>
+                prev.map((img) =>
+                  img.id === tempId
+                    ? { ...img, analysisStage: event.message }
+                    : img
+                )
+              );
+            } else if (event.type === "partial") {
+              const { lawfulChaotic, goodEvil } = event.analysis;
+              setImages((prev) =>
+                prev.map((img) =>
+                  img.id === tempId
+                    ? {
+                        ...img,
+                        partialAnalysis: event.analysis,
+                        // Move the placement as soon as both scores have streamed in
+                        position:
+                          typeof lawfulChaotic === "number" &&
+                          typeof goodEvil === "number"
+                            ? alignmentToPosition({ lawfulChaotic, goodEvil })
+                            : img.position,
+                      }
+                    : img
+                )
+              );
+            } else {
+              analysisResult = event.result;
+            }
+          }
+
+          if (
+            !analysisResult ||
+            analysisResult.isError ||
+            !analysisResult.explanation
+          ) {
+            throw new Error(analysisResult?.explanation || "Analysis failed.");
           }
+          const finalAnalysis = analysisResult;
 
-          const [avatarUrl] = await Promise.all([
-            getBestAvatarUrl(cleanUsername),
-          ]);
+          // The analysis already looked the avatar up with the account
+          const avatarUrl =
+            finalAnalysis.avatarUrl ||
+            (await getBestAvatarUrl(cleanUsername, platform));
 
           setImages((prev) =>
             prev.map((img) =>
@@ -125,9 +200,11 @@ export function usePlacements() {
                 ? {
                     ...img,
                     src: avatarUrl,
-                    position: alignmentToPosition(analysisResult),
+                    position: alignmentToPosition(finalAnalysis),
                     loading: false,
-                    analysis: analysisResult,
+                    analysis: finalAnalysis,
+                    partialAnalysis: undefined,
+                    analysisStage: undefined,
                   }
                 : img
             )
@@ -136,7 +213,11 @@ export function usePlacements() {
           setNewlyAnalyzedId(tempId);
           toast.success(
             `Analyzed @${cleanUsername}! ${
-              analysisResult.cached ? "(from cache)" : ""
+              finalAnalysis.isStale
+                ? "(from cache, refreshing in the background)"
+                : finalAnalysis.cached
+                  ? "(from cache)"
+                  : ""
             }`
           );
           setTimeout(() => setNewlyAnalyzedId(null), 5000);
@@ -151,7 +232,7 @@ export function usePlacements() {
     } else {
       // Manual Placement Flow
       try {
-        const avatarUrl = await getBestAvatarUrl(cleanUsername);
+        const avatarUrl = await getBestAvatarUrl(cleanUsername, platform);
         setImages((prev) =>
           prev.map((img) =>
             img.id === tempId ? { ...img, src: avatarUrl, loading: false } : img
@@ -173,6 +254,100 @@ export function usePlacements() {
     }
   };
 
+  // Scores the account month by month and stores the trajectory on the placement
+  const loadDrift = async (id: string) => {
+    const placement = images.find((img) => img.id === id);
+    if (!placement?.username || placement.isLoadingDrift) return;
+    const { username } = placement;
+
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === id ? { ...img, isLoadingDrift: true } : img
+      )
+    );
+    try {
+      const driftResult = await analyseUserDrift(username, {
+        framework: placement.analysis?.framework,
+      });
+      if (driftResult.isError) {
+        throw new Error(driftResult.explanation || "Drift analysis failed.");
+      }
+      setImages((prev) =>
+        prev.map((img) =>
+          img.id === id
+            ? { ...img, drift: driftResult.points, isLoadingDrift: false }
+            : img
+        )
+      );
+      toast.success(
+        `Loaded ${driftResult.points.length} ${driftResult.granularity}s of drift for @${username}.`
+      );
+    } catch (error) {
+      logger.error("Error during drift analysis:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : `Drift analysis failed for @${username}.`
+      );
+      setImages((prev) =>
+        prev.map((img) =>
+          img.id === id ? { ...img, isLoadingDrift: false } : img
+        )
+      );
+    }
+  };
+
+  // Re-scores an AI placement, bypassing the server cache. Within the refresh
+  // cooldown the server answers with its latest cached result instead.
+  const reanalysePlacement = async (id: string) => {
+    const placement = images.find((img) => img.id === id);
+    if (!placement?.username || placement.isRefreshing) return;
+    const { username } = placement;
+
+    const updatePlacement = (changes: Partial<Placement>) =>
+      setImages((prev) =>
+        prev.map((img) => (img.id === id ? { ...img, ...changes } : img))
+      );
+    updatePlacement({ isRefreshing: true });
+    try {
+      const { events } = await streamAnalyseUser(username, {
+        framework: placement.analysis?.framework,
+        refresh: true,
+      });
+      let analysisResult: AlignmentAnalysisResult | undefined;
+      for await (const event of readStreamableValue(events)) {
+        if (event?.type === "stage") {
+          updatePlacement({ analysisStage: event.message });
+        } else if (event?.type === "done") {
+          analysisResult = event.result;
+        }
+      }
+      if (
+        !analysisResult ||
+        analysisResult.isError ||
+        !analysisResult.explanation
+      ) {
+        throw new Error(analysisResult?.explanation || "Analysis failed.");
+      }
+
+      updatePlacement({
+        analysis: analysisResult,
+        position: alignmentToPosition(analysisResult),
+        isRefreshing: false,
+        analysisStage: undefined,
+      });
+      toast.success(
+        analysisResult.cached
+          ? `@${username} was analyzed recently; showing the latest result.`
+          : `Re-analyzed @${username}!`
+      );
+    } catch (error) {
+      logger.error("Error during re-analysis:", error);
+      toast.error(`Re-analysis failed for @${username}.`);
+      updatePlacement({ isRefreshing: false, analysisStage: undefined });
+    }
+  };
+
   const removePlacement = async (idToRemove: string) => {
     setImages((prev) => prev.filter((img) => img.id !== idToRemove));
     try {
@@ -201,7 +376,11 @@ export function usePlacements() {
     isPageLoading,
     isProcessing: isProcessing || isAnalyzingServer,
     newlyAnalyzedId,
+    framework: getChartFramework(frameworkId),
+    setFrameworkId,
     addPlacement,
+    loadDrift,
+    reanalysePlacement,
     removePlacement,
     clearAllPlacements,
   };
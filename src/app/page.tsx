@@ -33,6 +33,7 @@ import { usePlacements } from "./hooks/usePlacements";
 import { useChartSizing } from "./hooks/useChartSizing";
 import { useDragAndDrop } from "./hooks/useDragAndDrop";
 import { ActionToolbar } from "./components/ActionToolbar";
+import { FrameworkSelector } from "./components/FrameworkSelector";
 import { AlignmentChart } from "./components/AlignmentChart";
 import { ConnectWalletButton } from "./components/wallet-connect-button";
 import { AnalysisPanel } from "./components/analysis-panel";
@@ -123,7 +124,11 @@ export default function AlignmentChartPage() {
     isPageLoading,
     isProcessing,
     newlyAnalyzedId,
+    framework,
+    setFrameworkId,
     addPlacement,
+    loadDrift,
+    reanalysePlacement,
     removePlacement,
     clearAllPlacements,
   } = usePlacements();
@@ -312,13 +317,21 @@ export default function AlignmentChartPage() {
       images
         .filter(
           (img) =>
-            img.isAiPlaced && img.analysis && !img.loading && img.username
+            img.isAiPlaced &&
+            img.username &&
+            (img.analysis || (img.loading && img.analysisStage))
         )
         .map((img) => ({
           id: img.id,
           username: img.username!,
+          platform: img.platform,
           imageSrc: img.src,
-          analysis: img.analysis!,
+          analysis: img.analysis ?? img.partialAnalysis ?? {},
+          isStreaming: img.loading,
+          stage: img.analysisStage,
+          hasDrift: !!img.drift?.length,
+          isLoadingDrift: img.isLoadingDrift,
+          isRefreshing: img.isRefreshing,
           timestamp: img.timestamp,
         }))
         .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()),
@@ -356,8 +369,14 @@ export default function AlignmentChartPage() {
                 isProcessing={isProcessing}
                 isConnected={isConnected}
               />
+              <FrameworkSelector
+                framework={framework}
+                onChange={setFrameworkId}
+                isLocked={images.length > 0 || isActionDisabled}
+              />
               <AlignmentChart
                 chartRef={chartRef}
+                framework={framework}
                 placements={images}
                 chartSize={chartSize}
                 imageSize={imageSize}
@@ -380,6 +399,8 @@ export default function AlignmentChartPage() {
             <AnalysisPanel
               analyses={panelAnalyses}
               newAnalysisId={newlyAnalyzedId}
+              onShowDrift={loadDrift}
+              onReanalyse={reanalysePlacement}
             >
               {!hasSnapshot && (
                 <Button
@@ -1,7 +1,10 @@
 // src/app/types.ts
+import type { DeepPartial } from "ai";
 import { type AlignmentAnalysis } from "./actions/analyze-tweets";
+import type { DriftPoint } from "@/lib/alignment-drift";
+import type { SocialPlatform } from "@/lib/social-handle";
 
-export type { AlignmentAnalysis };
+export type { AlignmentAnalysis, DriftPoint };
 
 export interface Position {
   x: number;
@@ -15,7 +18,14 @@ export interface Placement {
   isDragging: boolean;
   loading?: boolean;
   username?: string;
+  platform?: SocialPlatform; // Absent means X
   analysis?: AlignmentAnalysis;
+  // Transient streaming state, only set while an AI analysis is in flight
+  partialAnalysis?: DeepPartial<AlignmentAnalysis>;
+  analysisStage?: string;
+  drift?: DriftPoint[]; // Alignment per period, oldest first
+  isLoadingDrift?: boolean;
+  isRefreshing?: boolean; // A user-requested re-analysis is in flight
   isAiPlaced?: boolean;
   timestamp: Date;
 }
@@ -24,7 +34,13 @@ export interface Placement {
 export interface PanelAnalysisItem {
   id: string;
   username: string;
+  platform?: SocialPlatform;
   imageSrc: string;
-  analysis: AlignmentAnalysis;
+  analysis: DeepPartial<AlignmentAnalysis>; // Partial while still streaming
+  isStreaming?: boolean;
+  stage?: string;
+  hasDrift?: boolean;
+  isLoadingDrift?: boolean;
+  isRefreshing?: boolean;
   timestamp: Date;
 }
@@ -0,0 +1,73 @@
+// src/lib/alignment-confidence.ts
+
+// Number of analysed tweets at which tweet volume stops limiting confidence
+const FULL_CONFIDENCE_TWEET_COUNT = 20;
+// Ensemble standard deviation (score points) treated as total disagreement
+const MAX_SAMPLE_SPREAD = 50;
+
+export type AlignmentAxis = "lawfulChaotic" | "goodEvil";
+
+// 0 (no confidence) to 1 (fully confident), per axis
+export type AxisConfidence = Record<AlignmentAxis, number>;
+
+interface AxisCitation {
+  axis: AlignmentAxis;
+  contribution: number;
+}
+
+interface ConfidenceInput {
+  tweetCount: number;
+  scores: Record<AlignmentAxis, number>; // -100..100
+  modelCertainty: Record<AlignmentAxis, number>; // 0..1, self-reported
+  citations: AxisCitation[];
+  sampleSpread?: Record<AlignmentAxis, number>; // Only set in ensemble mode
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// How consistently the cited posts point to where the axis score landed.
+// Unknown (no citations for the axis) counts as a coin flip.
+function citationAgreement(
+  axis: AlignmentAxis,
+  score: number,
+  citations: AxisCitation[]
+): number {
+  const axisCitations = citations.filter((c) => c.axis === axis);
+  if (axisCitations.length === 0) return 0.5;
+
+  const meanDistance =
+    axisCitations.reduce(
+      (sum, c) => sum + Math.abs(c.contribution - score) / 200,
+      0
+    ) / axisCitations.length;
+  return clamp01(1 - meanDistance);
+}
+
+export function computeAxisConfidence({
+  tweetCount,
+  scores,
+  modelCertainty,
+  citations,
+  sampleSpread,
+}: ConfidenceInput): AxisConfidence {
+  const dataFactor = clamp01(tweetCount / FULL_CONFIDENCE_TWEET_COUNT);
+
+  const forAxis = (axis: AlignmentAxis) => {
+    const certainty = clamp01(modelCertainty[axis]);
+    const postAgreement = citationAgreement(axis, scores[axis], citations);
+    // With an ensemble, also factor in how closely the samples agreed
+    const agreement = sampleSpread
+      ? (postAgreement + clamp01(1 - sampleSpread[axis] / MAX_SAMPLE_SPREAD)) /
+        2
+      : postAgreement;
+    // Thin data caps confidence no matter how sure the model claims to be
+    return (
+      Math.round(dataFactor * (0.5 * certainty + 0.5 * agreement) * 100) / 100
+    );
+  };
+
+  return {
+    lawfulChaotic: forAxis("lawfulChaotic"),
+    goodEvil: forAxis("goodEvil"),
+  };
+}
@@ -0,0 +1,98 @@
+// src/lib/alignment-drift.ts
+import type { AxisConfidence } from "./alignment-confidence";
+
+export type DriftGranularity = "month" | "quarter";
+
+const DEFAULT_MAX_BUCKETS = 6;
+const MAX_BUCKETS_LIMIT = 12;
+// Buckets with fewer tweets than this are too thin to score meaningfully
+export const MIN_TWEETS_PER_BUCKET = 3;
+
+export interface DriftOptions {
+  granularity?: DriftGranularity;
+  maxBuckets?: number; // Most recent periods to score
+}
+
+export interface DriftBucket<T> {
+  period: string; // "2024-05" or "2024-Q2"
+  start: string; // ISO date, inclusive
+  end: string; // ISO date, exclusive
+  tweets: T[];
+}
+
+// One scored period of an account's history
+export interface DriftPoint {
+  period: string;
+  start: string;
+  end: string;
+  tweetCount: number;
+  lawfulChaotic: number;
+  goodEvil: number;
+  confidence?: AxisConfidence;
+}
+
+export function resolveDriftOptions(
+  options: DriftOptions = {}
+): Required<DriftOptions> {
+  const maxBuckets = Math.floor(options.maxBuckets ?? DEFAULT_MAX_BUCKETS);
+  return {
+    granularity: options.granularity === "quarter" ? "quarter" : "month",
+    maxBuckets: Math.max(
+      2,
+      Math.min(MAX_BUCKETS_LIMIT, maxBuckets || DEFAULT_MAX_BUCKETS)
+    ),
+  };
+}
+
+// Period boundaries are computed in UTC so buckets don't shift with the server timezone
+function getPeriod(date: Date, granularity: DriftGranularity) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (granularity === "quarter") {
+    const quarter = Math.floor(month / 3);
+    return {
+      period: `${year}-Q${quarter + 1}`,
+      start: new Date(Date.UTC(year, quarter * 3, 1)),
+      end: new Date(Date.UTC(year, quarter * 3 + 3, 1)),
+    };
+  }
+  return {
+    period: `${year}-${String(month + 1).padStart(2, "0")}`,
+    start: new Date(Date.UTC(year, month, 1)),
+    end: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+/**
+ * Groups tweets into calendar periods, oldest first. Only the `maxBuckets`
+ * most recent periods with at least MIN_TWEETS_PER_BUCKET tweets are returned.
+ */
+export function bucketTweetsByPeriod<T>(
+  tweets: T[],
+  getDate: (tweet: T) => Date,
+  granularity: DriftGranularity,
+  maxBuckets: number
+): DriftBucket<T>[] {
+  const buckets = new Map<string, DriftBucket<T>>();
+
+  for (const tweet of tweets) {
+    const { period, start, end } = getPeriod(getDate(tweet), granularity);
+    const bucket = buckets.get(period);
+    if (bucket) {
+      bucket.tweets.push(tweet);
+    } else {
+      buckets.set(period, {
+        period,
+        start: start.toISOString(),
+        end: end.toISOString(),
+        tweets: [tweet],
+      });
+    }
+  }
+
+  return [...buckets.values()]
+    .filter((bucket) => bucket.tweets.length >= MIN_TWEETS_PER_BUCKET)
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .slice(-maxBuckets);
+}
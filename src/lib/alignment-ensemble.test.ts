@@ -0,0 +1,40 @@
+// src/lib/alignment-ensemble.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resolveEnsembleConfig } from "./alignment-ensemble";
+
+describe("resolveEnsembleConfig", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the configured models and samples without overrides", () => {
+    vi.stubEnv("ANALYSIS_ENSEMBLE_SAMPLES", "5");
+    vi.stubEnv("ANALYSIS_ENSEMBLE_MODELS", "gemini:a, gemini:b");
+
+    expect(resolveEnsembleConfig()).toEqual({
+      samples: 5,
+      models: ["gemini:a", "gemini:b"],
+    });
+  });
+
+  it("drops requested models that aren't allowed", () => {
+    vi.stubEnv("ANALYSIS_ENSEMBLE_MODELS", "gemini:a");
+
+    expect(
+      resolveEnsembleConfig({ models: ["gemini:a", "openai:expensive"] }).models
+    ).toEqual(["gemini:a"]);
+
+    vi.stubEnv("ANALYSIS_ENSEMBLE_ALLOWED_MODELS", "gemini:a,gemini:b");
+    expect(
+      resolveEnsembleConfig({ models: ["gemini:b", "openai:expensive"] }).models
+    ).toEqual(["gemini:b"]);
+  });
+
+  it("caps requested samples", () => {
+    expect(resolveEnsembleConfig({ samples: 9 }).samples).toBe(3);
+
+    vi.stubEnv("ANALYSIS_ENSEMBLE_MAX_SAMPLES", "5");
+    expect(resolveEnsembleConfig({ samples: 9 }).samples).toBe(5);
+    expect(resolveEnsembleConfig({ samples: 0 }).samples).toBe(1);
+  });
+});
@@ -0,0 +1,196 @@
+// src/lib/alignment-ensemble.ts
+import type { AlignmentAxis } from "./alignment-confidence";
+import { logger } from "./logger";
+
+const MAX_ENSEMBLE_SAMPLES = 9;
+const MAX_MERGED_EVIDENCE = 6;
+// Default cap on samples a request can ask for (ANALYSIS_ENSEMBLE_MAX_SAMPLES)
+const MAX_REQUESTED_SAMPLES = 3;
+
+export interface EnsembleConfig {
+  samples: number;
+  // Model specs ("provider:modelId") assigned to samples round-robin. Empty = default model.
+  models: string[];
+}
+
+// Shape of a single model answer; mirrors AlignmentSchema in analyze-tweets.ts
+export interface AlignmentSample {
+  explanation: string;
+  lawfulChaotic: number;
+  goodEvil: number;
+  evidence: {
+    postId: string;
+    quote: string;
+    axis: AlignmentAxis;
+    contribution: number;
+  }[];
+  certainty: Record<AlignmentAxis, number>;
+}
+
+export interface EnsembleSummary {
+  samples: number; // Samples that succeeded and were aggregated
+  models: string[];
+  // Standard deviation of the sample scores, in score points
+  spread: Record<AlignmentAxis, number>;
+}
+
+const parseModelList = (value?: string) =>
+  (value || "")
+    .split(",")
+    .map((spec) => spec.trim())
+    .filter(Boolean);
+
+/**
+ * Reads the ensemble configuration, preferring explicit options over the
+ * ANALYSIS_ENSEMBLE_SAMPLES / ANALYSIS_ENSEMBLE_MODELS environment variables.
+ * A single sample means ensemble mode is off.
+ *
+ * Options come from the browser, so they're held to what the server allows:
+ * models must be listed in ANALYSIS_ENSEMBLE_ALLOWED_MODELS (default: the
+ * ANALYSIS_ENSEMBLE_MODELS specs), and at most ANALYSIS_ENSEMBLE_MAX_SAMPLES
+ * (default 3) samples can be requested.
+ */
+export function resolveEnsembleConfig(
+  override?: Partial<EnsembleConfig>
+): EnsembleConfig {
+  const configuredModels = parseModelList(process.env.ANALYSIS_ENSEMBLE_MODELS);
+  const allowedModels = new Set(
+    process.env.ANALYSIS_ENSEMBLE_ALLOWED_MODELS !== undefined
+      ? parseModelList(process.env.ANALYSIS_ENSEMBLE_ALLOWED_MODELS)
+      : configuredModels
+  );
+
+  let models = configuredModels;
+  if (override?.models) {
+    models = override.models.filter((spec) => allowedModels.has(spec));
+    const rejected = override.models.filter((spec) => !allowedModels.has(spec));
+    if (rejected.length) {
+      logger.warn(
+        { rejected, allowed: [...allowedModels] },
+        "Ignoring ensemble models that are not allowed"
+      );
+    }
+  }
+
+  let rawSamples = Number(process.env.ANALYSIS_ENSEMBLE_SAMPLES || 1);
+  if (override?.samples !== undefined) {
+    const maxRequested =
+      Number(process.env.ANALYSIS_ENSEMBLE_MAX_SAMPLES) ||
+      MAX_REQUESTED_SAMPLES;
+    rawSamples = Math.min(override.samples, maxRequested);
+  }
+
+  const samples = Number.isFinite(rawSamples)
+    ? Math.max(1, Math.min(MAX_ENSEMBLE_SAMPLES, Math.floor(rawSamples)))
+    : 1;
+
+  return { samples, models };
+}
+
+// Spec for each sample, cycling through the configured models
+export function assignSampleModels(
+  config: EnsembleConfig
+): (string | undefined)[] {
+  return Array.from({ length: config.samples }, (_, i) =>
+    config.models.length ? config.models[i % config.models.length] : undefined
+  );
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const standardDeviation = (values: number[]) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(
+    values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+  );
+};
+
+function mergeEvidence(
+  samples: AlignmentSample[]
+): AlignmentSample["evidence"] {
+  const byPostAndAxis = new Map<
+    string,
+    { citation: AlignmentSample["evidence"][number]; contributions: number[] }
+  >();
+
+  for (const citation of samples.flatMap((sample) => sample.evidence)) {
+    const key = `${citation.postId}:${citation.axis}`;
+    const existing = byPostAndAxis.get(key);
+    if (existing) {
+      existing.contributions.push(citation.contribution);
+    } else {
+      byPostAndAxis.set(key, {
+        citation,
+        contributions: [citation.contribution],
+      });
+    }
+  }
+
+  // Posts cited by more samples rank first, then by strength of contribution
+  return [...byPostAndAxis.values()]
+    .sort(
+      (a, b) =>
+        b.contributions.length - a.contributions.length ||
+        Math.abs(median(b.contributions)) - Math.abs(median(a.contributions))
+    )
+    .slice(0, MAX_MERGED_EVIDENCE)
+    .map(({ citation, contributions }) => ({
+      ...citation,
+      contribution: Math.round(median(contributions)),
+    }));
+}
+
+/**
+ * Combines several samples into one answer: median scores and certainties,
+ * the explanation of the sample closest to the median point, and evidence
+ * merged across samples.
+ */
+export function aggregateSamples(
+  samples: AlignmentSample[],
+  models: string[]
+): { aggregate: AlignmentSample; summary: EnsembleSummary } {
+  if (samples.length === 0) {
+    throw new Error("Cannot aggregate an empty ensemble.");
+  }
+
+  const lawfulChaotic = Math.round(median(samples.map((s) => s.lawfulChaotic)));
+  const goodEvil = Math.round(median(samples.map((s) => s.goodEvil)));
+
+  const representative = samples.reduce((closest, sample) =>
+    Math.hypot(
+      sample.lawfulChaotic - lawfulChaotic,
+      sample.goodEvil - goodEvil
+    ) <
+    Math.hypot(
+      closest.lawfulChaotic - lawfulChaotic,
+      closest.goodEvil - goodEvil
+    )
+      ? sample
+      : closest
+  );
+
+  const spread = {
+    lawfulChaotic: Math.round(
+      standardDeviation(samples.map((s) => s.lawfulChaotic))
+    ),
+    goodEvil: Math.round(standardDeviation(samples.map((s) => s.goodEvil))),
+  };
+
+  return {
+    aggregate: {
+      explanation: representative.explanation,
+      lawfulChaotic,
+      goodEvil,
+      evidence: mergeEvidence(samples),
+      certainty: {
+        lawfulChaotic: median(samples.map((s) => s.certainty.lawfulChaotic)),
+        goodEvil: median(samples.map((s) => s.certainty.goodEvil)),
+      },
+    },
+    summary: { samples: samples.length, models, spread },
+  };
+}
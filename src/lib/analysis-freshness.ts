@@ -0,0 +1,49 @@
+// src/lib/analysis-freshness.ts
+
+// Cached analyses are kept for a week, but after ANALYSIS_FRESH_SECONDS
+// (default 1 day) they are stale: still served at once, while a fresh analysis
+// runs in the background. Users can also ask for a re-analysis, at most once
+// per ANALYSIS_REFRESH_COOLDOWN_SECONDS (default 15 minutes) per analysis.
+
+const DEFAULT_FRESH_SECONDS = 60 * 60 * 24; // 1 day
+const DEFAULT_REFRESH_COOLDOWN_SECONDS = 60 * 15; // 15 minutes
+
+export interface AnalysisFreshness {
+  analyzedAt?: string; // ISO time the model produced the analysis
+  refreshAvailableAt?: string; // ISO time a user-requested re-analysis is allowed
+}
+
+const getSeconds = (name: string, fallback: number) => {
+  const value = Number(process.env[name] || fallback);
+  return Number.isNaN(value) ? fallback : Math.max(0, value);
+};
+
+export function stampAnalysisFreshness(
+  now = Date.now()
+): Required<AnalysisFreshness> {
+  const cooldownMs =
+    getSeconds(
+      "ANALYSIS_REFRESH_COOLDOWN_SECONDS",
+      DEFAULT_REFRESH_COOLDOWN_SECONDS
+    ) * 1000;
+  return {
+    analyzedAt: new Date(now).toISOString(),
+    refreshAvailableAt: new Date(now + cooldownMs).toISOString(),
+  };
+}
+
+// Analyses cached before freshness was recorded count as stale
+export function isAnalysisStale(
+  { analyzedAt }: AnalysisFreshness,
+  now = Date.now()
+): boolean {
+  if (!analyzedAt) return true;
+  const freshMs =
+    getSeconds("ANALYSIS_FRESH_SECONDS", DEFAULT_FRESH_SECONDS) * 1000;
+  return now - Date.parse(analyzedAt) > freshMs;
+}
+
+export const isRefreshAllowed = (
+  { refreshAvailableAt }: AnalysisFreshness,
+  now = Date.now()
+) => !refreshAvailableAt || Date.parse(refreshAvailableAt) <= now;
@@ -0,0 +1,284 @@
+// src/lib/apify-source.test.ts
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { apifySource } from "./apify-source";
+import { resolveTweetWindow } from "./tweet-window";
+
+// A local stand-in for the parts of the Apify API the source uses: starting
+// an actor run, polling it, and reading its default dataset
+interface MockRun {
+  status: string;
+  items: unknown[];
+}
+
+let server: Server;
+let runs: MockRun[] = [];
+let startedInputs: unknown[] = [];
+// What the next started run does
+let nextRun: MockRun;
+
+const runJson = (id: number) => ({
+  data: {
+    id: `run-${id}`,
+    actId: "actor",
+    status: runs[id].status,
+    defaultDatasetId: `dataset-${id}`,
+    startedAt: "2025-06-01T00:00:00.000Z",
+  },
+});
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url!, "http://localhost");
+    const send = (status: number, body: unknown, headers = {}) => {
+      response.writeHead(status, {
+        "content-type": "application/json",
+        ...headers,
+      });
+      response.end(JSON.stringify(body));
+    };
+
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      if (
+        request.method === "POST" &&
+        url.pathname === "/v2/acts/apidojo~tweet-scraper/runs"
+      ) {
+        startedInputs.push(JSON.parse(body));
+        runs.push(nextRun);
+        return send(201, runJson(runs.length - 1));
+      }
+      const runMatch = url.pathname.match(/^\/v2\/actor-runs\/run-(\d+)$/);
+      if (request.method === "GET" && runMatch) {
+        // A running job is polled again, so don't answer it instantly
+        const id = Number(runMatch[1]);
+        const delay = runs[id].status === "RUNNING" ? 100 : 0;
+        return setTimeout(() => send(200, runJson(id)), delay);
+      }
+      const datasetMatch = url.pathname.match(
+        /^\/v2\/datasets\/dataset-(\d+)\/items$/
+      );
+      if (request.method === "GET" && datasetMatch) {
+        const { items } = runs[Number(datasetMatch[1])];
+        return send(200, items, {
+          "x-apify-pagination-total": String(items.length),
+          "x-apify-pagination-offset": "0",
+          "x-apify-pagination-limit": "999999999999",
+        });
+      }
+      send(404, { error: { type: "record-not-found" } });
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+
+  const { port } = server.address() as AddressInfo;
+  process.env.APIFY_TOKEN = "test-token";
+  process.env.APIFY_API_BASE_URL = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  runs = [];
+  startedInputs = [];
+  delete process.env.APIFY_RUN_TIMEOUT_SECS;
+});
+
+const author = {
+  userName: "ada",
+  name: "Ada",
+  description: "Grant reviewer",
+  followers: 120,
+  statusesCount: 340,
+  profilePicture: "https://pbs.twimg.com/profile_images/ada.jpg",
+};
+
+const fetchOptions = () => ({
+  tweetWindow: resolveTweetWindow({ maxTweets: 10 }),
+  collectLimit: 10,
+});
+
+describe("apifySource", () => {
+  it("maps dataset items to the profile and newest-first posts", async () => {
+    nextRun = {
+      status: "SUCCEEDED",
+      items: [
+        {
+          type: "tweet",
+          id: "1",
+          url: "https://x.com/ada/status/1",
+          text: "Older post",
+          createdAt: "Mon Jun 02 10:00:00 +0000 2025",
+          likeCount: 3,
+          retweetCount: 1,
+          replyCount: 2,
+          quoteCount: 0,
+          author,
+        },
+        {
+          type: "tweet",
+          id: "2",
+          fullText: "Newer post quoting someone",
+          createdAt: "Tue Jun 03 10:00:00 +0000 2025",
+          likeCount: 10,
+          isQuote: true,
+          quote: {
+            id: "9",
+            text: "The quoted post",
+            url: "https://x.com/bob/status/9",
+            author: { userName: "bob" },
+          },
+          author,
+        },
+        {
+          // snake_case items from raw-API style actors work too
+          id_str: "3",
+          full_text: "Reply in the old format",
+          created_at: "Wed Jun 04 10:00:00 +0000 2025",
+          favorite_count: 1,
+          in_reply_to_status_id_str: "77",
+          user: { screen_name: "ada" },
+        },
+      ],
+    };
+
+    const account = await apifySource.fetchAccount("ada", fetchOptions());
+
+    expect(startedInputs).toEqual([
+      { twitterHandles: ["ada"], maxItems: 10, sort: "Latest" },
+    ]);
+    expect(account?.source).toBe("apify");
+    expect(account?.profile).toEqual({
+      username: "ada",
+      name: "Ada",
+      bio: "Grant reviewer",
+      location: undefined,
+      followersCount: 120,
+      postsCount: 340,
+      avatarUrl: "https://pbs.twimg.com/profile_images/ada.jpg",
+      profileUrl: "https://x.com/ada",
+    });
+    expect(account?.posts.map((post) => post.id)).toEqual(["3", "2", "1"]);
+    expect(account?.posts[0]).toMatchObject({
+      url: "https://x.com/ada/status/3",
+      text: "Reply in the old format",
+      createdAt: "2025-06-04T10:00:00.000Z",
+      likes: 1,
+      isReply: true,
+    });
+    expect(account?.posts[1]).toMatchObject({
+      text: "Newer post quoting someone",
+      likes: 10,
+      isQuote: true,
+      quoted: {
+        author: "bob",
+        text: "The quoted post",
+        url: "https://x.com/bob/status/9",
+      },
+    });
+    expect(account?.posts[2]).toMatchObject({
+      url: "https://x.com/ada/status/1",
+      likes: 3,
+      reposts: 1,
+      replies: 2,
+      isReply: false,
+    });
+  });
+
+  it("drops placeholder, empty and other authors' items", async () => {
+    nextRun = {
+      status: "SUCCEEDED",
+      items: [
+        { type: "mock_tweet", id: "m", text: "placeholder", author },
+        { noResults: true },
+        { id: "e", text: "   ", createdAt: "2025-06-01", author },
+        {
+          id: "r",
+          text: "Reply from someone else",
+          createdAt: "2025-06-01",
+          author: { userName: "bob" },
+        },
+        { id: "k", text: "Kept", createdAt: "2025-06-01", author },
+      ],
+    };
+
+    const account = await apifySource.fetchAccount("ada", fetchOptions());
+
+    expect(account?.posts.map((post) => post.id)).toEqual(["k"]);
+  });
+
+  it("keeps retweets of other authors for the window to filter", async () => {
+    const items = [
+      {
+        id: "rt",
+        text: "RT @bob: Worth reading",
+        createdAt: "2025-06-02",
+        isRetweet: true,
+        author: { userName: "bob", name: "Bob" },
+      },
+      { id: "own", text: "Own post", createdAt: "2025-06-01", author },
+    ];
+
+    nextRun = { status: "SUCCEEDED", items };
+    const withRetweets = await apifySource.fetchAccount("ada", fetchOptions());
+    expect(withRetweets?.posts.map((post) => post.id)).toEqual(["rt", "own"]);
+    expect(withRetweets?.posts[0].isRetweet).toBe(true);
+    // The profile still describes the account, not the retweeted author
+    expect(withRetweets?.profile.name).toBe("Ada");
+
+    nextRun = { status: "SUCCEEDED", items };
+    const withoutRetweets = await apifySource.fetchAccount("ada", {
+      tweetWindow: resolveTweetWindow({
+        maxTweets: 10,
+        includeRetweets: false,
+      }),
+      collectLimit: 10,
+    });
+    expect(withoutRetweets?.posts.map((post) => post.id)).toEqual(["own"]);
+  });
+
+  it("asks for more items when the window filters some out", async () => {
+    nextRun = { status: "SUCCEEDED", items: [] };
+
+    await apifySource.fetchAccount("ada", {
+      tweetWindow: resolveTweetWindow({ maxTweets: 10, includeReplies: false }),
+      collectLimit: 10,
+    });
+
+    expect(startedInputs).toEqual([
+      { twitterHandles: ["ada"], maxItems: 30, sort: "Latest" },
+    ]);
+  });
+
+  it("returns null when the dataset has no tweets for the account", async () => {
+    nextRun = {
+      status: "SUCCEEDED",
+      items: [{ type: "mock_tweet", noResults: true }],
+    };
+
+    await expect(
+      apifySource.fetchAccount("nobody", fetchOptions())
+    ).resolves.toBeNull();
+  });
+
+  it("fails when the run doesn't finish within the timeout", async () => {
+    process.env.APIFY_RUN_TIMEOUT_SECS = "1";
+    nextRun = { status: "RUNNING", items: [] };
+
+    await expect(
+      apifySource.fetchAccount("ada", fetchOptions())
+    ).rejects.toThrow(/run run-0 finished with status RUNNING/);
+  });
+
+  it("fails when the run itself fails", async () => {
+    nextRun = { status: "FAILED", items: [] };
+
+    await expect(
+      apifySource.fetchAccount("ada", fetchOptions())
+    ).rejects.toThrow(/finished with status FAILED/);
+  });
+});
@@ -0,0 +1,252 @@
+// src/lib/apify-source.ts
+import "server-only";
+import { ApifyClient } from "apify-client";
+import { logger } from "./logger";
+import {
+  applyTweetWindow,
+  type SocialDataSource,
+  type SocialPost,
+  type SocialPostContext,
+  type SocialProfile,
+} from "./social-data-source";
+import { getScanLimit, type TweetWindow } from "./tweet-window";
+
+// Any actor with the same input/output shape as apidojo/tweet-scraper can be
+// swapped in with APIFY_TWITTER_ACTOR
+const DEFAULT_ACTOR_ID = "apidojo/tweet-scraper";
+// How long to wait for the actor run before giving up on it
+const DEFAULT_RUN_TIMEOUT_SECS = 120;
+
+// Dataset item fields we use. Tweet-scraper actors don't agree on naming, so
+// both the camelCase (apidojo) and the raw Twitter API snake_case variants are
+// accepted.
+interface ApifyAuthor {
+  userName?: string;
+  screen_name?: string;
+  name?: string;
+  description?: string;
+  location?: string;
+  followers?: number;
+  followersCount?: number;
+  followers_count?: number;
+  statusesCount?: number;
+  statuses_count?: number;
+  profilePicture?: string;
+  profile_image_url_https?: string;
+  url?: string;
+}
+
+interface ApifyTweetItem {
+  type?: string; // "tweet"; "mock_tweet" marks placeholder items
+  noResults?: boolean;
+  id?: string;
+  id_str?: string;
+  url?: string;
+  twitterUrl?: string;
+  text?: string;
+  fullText?: string;
+  full_text?: string;
+  createdAt?: string;
+  created_at?: string;
+  likeCount?: number;
+  favorite_count?: number;
+  retweetCount?: number;
+  retweet_count?: number;
+  replyCount?: number;
+  reply_count?: number;
+  quoteCount?: number;
+  quote_count?: number;
+  isReply?: boolean;
+  isRetweet?: boolean;
+  isQuote?: boolean;
+  is_quote_status?: boolean;
+  isPinned?: boolean;
+  inReplyToId?: string;
+  in_reply_to_status_id_str?: string;
+  retweeted_status?: unknown;
+  quote?: ApifyTweetItem; // The quoted tweet, in the same item format
+  quoted_status?: ApifyTweetItem;
+  author?: ApifyAuthor;
+  user?: ApifyAuthor;
+}
+
+let apifyClient: ApifyClient | null = null;
+
+function getApifyClient(): ApifyClient {
+  if (!apifyClient) {
+    apifyClient = new ApifyClient({
+      token: process.env.APIFY_TOKEN,
+      // Lets a local mock of the Apify API stand in during development
+      baseUrl: process.env.APIFY_API_BASE_URL || undefined,
+    });
+  }
+  return apifyClient;
+}
+
+// Actor input for apidojo/tweet-scraper. APIFY_TWITTER_INPUT (JSON) is merged
+// on top for actors that need extra or differently named options.
+function buildActorInput(
+  username: string,
+  tweetWindow: TweetWindow,
+  maxItems: number
+): Record<string, unknown> {
+  const toDay = (date: Date) => date.toISOString().slice(0, 10);
+  const input: Record<string, unknown> = {
+    twitterHandles: [username],
+    maxItems,
+    sort: "Latest",
+    ...(tweetWindow.since && { start: toDay(tweetWindow.since) }),
+    ...(tweetWindow.until && { end: toDay(tweetWindow.until) }),
+  };
+
+  const extraInput = process.env.APIFY_TWITTER_INPUT;
+  if (extraInput) {
+    try {
+      Object.assign(input, JSON.parse(extraInput));
+    } catch (error) {
+      logger.warn(
+        { err: error },
+        "Ignoring APIFY_TWITTER_INPUT: it is not valid JSON."
+      );
+    }
+  }
+  return input;
+}
+
+const toIsoDate = (value?: string): string => {
+  const date = value ? new Date(value) : new Date(NaN);
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+const getItemText = (item: ApifyTweetItem) =>
+  item.fullText ?? item.full_text ?? item.text ?? "";
+
+function toPostContext(item?: ApifyTweetItem): SocialPostContext | undefined {
+  const text = item && getItemText(item);
+  if (!item || !text) return undefined;
+  const author = item.author ?? item.user;
+  return {
+    author: author?.userName || author?.screen_name,
+    text,
+    url: item.url || item.twitterUrl,
+  };
+}
+
+const isRetweetItem = (item: ApifyTweetItem) =>
+  item.isRetweet ?? !!item.retweeted_status;
+
+function toSocialPost(username: string, item: ApifyTweetItem): SocialPost {
+  const id = item.id ?? item.id_str;
+  return {
+    id,
+    url:
+      item.url ||
+      item.twitterUrl ||
+      (id ? `https://x.com/${username}/status/${id}` : undefined),
+    text: getItemText(item),
+    createdAt: toIsoDate(item.createdAt ?? item.created_at),
+    likes: item.likeCount ?? item.favorite_count ?? 0,
+    reposts: item.retweetCount ?? item.retweet_count ?? 0,
+    replies: item.replyCount ?? item.reply_count ?? 0,
+    quotes: item.quoteCount ?? item.quote_count ?? 0,
+    isReply:
+      item.isReply ?? !!(item.inReplyToId || item.in_reply_to_status_id_str),
+    isRetweet: isRetweetItem(item),
+    isQuote: item.isQuote ?? item.is_quote_status,
+    isPin: item.isPinned,
+    quoted: toPostContext(item.quote ?? item.quoted_status),
+  };
+}
+
+function toSocialProfile(username: string, author: ApifyAuthor): SocialProfile {
+  const handle = author.userName || author.screen_name || username;
+  return {
+    username: handle,
+    name: author.name,
+    bio: author.description,
+    location: author.location,
+    followersCount:
+      author.followers ?? author.followersCount ?? author.followers_count,
+    postsCount: author.statusesCount ?? author.statuses_count,
+    avatarUrl: author.profilePicture || author.profile_image_url_https,
+    profileUrl: author.url || `https://x.com/${handle}`,
+  };
+}
+
+// The actor may return mentions and replies authored by other accounts. A
+// retweet can carry the original post's author, so it isn't checked here.
+const isAuthoredBy = (username: string, item: ApifyTweetItem) => {
+  const author = item.author ?? item.user;
+  const handle = author?.userName || author?.screen_name;
+  return !handle || handle.toLowerCase() === username.toLowerCase();
+};
+
+// Runs a hosted Apify actor and reads the user's tweets from its dataset.
+// Slower and paid per result, so it sits behind the scraper in the chain and
+// takes over when the scraper's login is locked.
+export const apifySource: SocialDataSource = {
+  name: "apify",
+  isConfigured: () => !!process.env.APIFY_TOKEN,
+  async fetchAccount(username, options) {
+    const client = getApifyClient();
+    const actorId = process.env.APIFY_TWITTER_ACTOR || DEFAULT_ACTOR_ID;
+    // Ask for enough items that the window's filters can still fill it
+    const input = buildActorInput(
+      username,
+      options.tweetWindow,
+      Math.max(getScanLimit(options.tweetWindow), options.collectLimit)
+    );
+
+    logger.info({ username, actorId, input }, "Starting Apify actor run");
+    const run = await client.actor(actorId).call(input, {
+      waitSecs: Number(
+        process.env.APIFY_RUN_TIMEOUT_SECS || DEFAULT_RUN_TIMEOUT_SECS
+      ),
+    });
+    if (run.status !== "SUCCEEDED") {
+      throw new Error(
+        `Apify actor ${actorId} run ${run.id} finished with status ${run.status}`
+      );
+    }
+
+    const { items } = await client
+      .dataset<ApifyTweetItem>(run.defaultDatasetId)
+      .listItems({ clean: true });
+    logger.debug(
+      { username, runId: run.id, itemCount: items.length },
+      "Fetched Apify dataset items"
+    );
+
+    const tweets = items.filter(
+      (item) =>
+        item.type !== "mock_tweet" &&
+        !item.noResults &&
+        (isRetweetItem(item) || isAuthoredBy(username, item)) &&
+        (item.fullText ?? item.full_text ?? item.text)?.trim()
+    );
+    // The profile comes from the account's own items, not a retweet's author
+    const author = tweets
+      .filter((item) => isAuthoredBy(username, item))
+      .map((item) => item.author ?? item.user)
+      .find(Boolean);
+    // Unknown or fully private accounts produce an empty dataset
+    if (!author) return null;
+
+    const posts = applyTweetWindow(
+      tweets
+        .map((item) => toSocialPost(username, item))
+        .sort(
+          (a, b) =>
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        ),
+      options
+    );
+    options.onPostsFetched?.(posts.length, options.collectLimit);
+
+    return {
+      source: "apify",
+      profile: toSocialProfile(username, author),
+      posts,
+    };
+  },
+};
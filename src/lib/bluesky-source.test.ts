@@ -0,0 +1,210 @@
+// src/lib/bluesky-source.test.ts
+import { readFileSync } from "fs";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { blueskySource } from "./bluesky-source";
+import { resolveTweetWindow, type TweetWindowOptions } from "./tweet-window";
+
+// Recorded XRPC exchanges, served back by a local AppView stand-in. A request
+// matches an exchange when its method, actor and cursor are the same.
+interface RecordedExchange {
+  method: string;
+  params: { actor: string; cursor?: string };
+  status: number;
+  body: unknown;
+}
+
+const fixturePath = new URL(
+  "./__fixtures__/bluesky/appview.json",
+  import.meta.url
+);
+const exchanges: RecordedExchange[] = JSON.parse(
+  readFileSync(fixturePath, "utf8")
+);
+
+let server: Server;
+let requests: { method: string; params: Record<string, string> }[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url!, "http://localhost");
+    const method = url.pathname.replace(/^\/xrpc\//, "");
+    const params = Object.fromEntries(url.searchParams);
+    requests.push({ method, params });
+
+    const exchange = exchanges.find(
+      (candidate) =>
+        candidate.method === method &&
+        candidate.params.actor === params.actor &&
+        candidate.params.cursor === params.cursor
+    );
+    response.writeHead(exchange?.status ?? 501, {
+      "content-type": "application/json",
+    });
+    response.end(
+      JSON.stringify(
+        exchange?.body ?? {
+          error: "NoFixture",
+          message: `No recorded response for ${url.pathname}${url.search}`,
+        }
+      )
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+
+  const { port } = server.address() as AddressInfo;
+  process.env.BLUESKY_APPVIEW_URL = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+const fetchAccount = (
+  actor: string,
+  window: TweetWindowOptions = {},
+  collectLimit = 50
+) =>
+  blueskySource.fetchAccount(actor, {
+    tweetWindow: resolveTweetWindow({ maxTweets: collectLimit, ...window }),
+    collectLimit,
+  });
+
+const feedCursors = () =>
+  requests
+    .filter((request) => request.method === "app.bsky.feed.getAuthorFeed")
+    .map((request) => request.params.cursor);
+
+describe("blueskySource", () => {
+  it("resolves a handle and reads the feed by DID", async () => {
+    const account = await fetchAccount("ada.bsky.social");
+
+    expect(requests[0]).toEqual({
+      method: "app.bsky.actor.getProfile",
+      params: { actor: "ada.bsky.social" },
+    });
+    expect(requests[1]).toEqual({
+      method: "app.bsky.feed.getAuthorFeed",
+      params: {
+        actor: "did:plc:ada3kq7",
+        limit: "100",
+        filter: "posts_with_replies",
+        includePins: "true",
+      },
+    });
+    expect(account?.source).toBe("bluesky");
+    expect(account?.profile).toEqual({
+      username: "ada.bsky.social",
+      name: "Ada",
+      bio: "Reviewing grants, mostly.",
+      followersCount: 310,
+      postsCount: 1024,
+      avatarUrl:
+        "https://cdn.bsky.app/img/avatar/plain/did:plc:ada3kq7/bafkava@jpeg",
+      profileUrl: "https://bsky.app/profile/ada.bsky.social",
+    });
+  });
+
+  it("resolves a DID to the account's handle", async () => {
+    const account = await fetchAccount("did:plc:ada3kq7");
+
+    expect(account?.profile.username).toBe("ada.bsky.social");
+    expect(account?.posts.length).toBeGreaterThan(0);
+  });
+
+  it("follows the cursor until the feed ends", async () => {
+    const account = await fetchAccount("ada.bsky.social");
+
+    expect(feedCursors()).toEqual([
+      undefined,
+      "2025-06-03T16:00:00.000Z",
+      "2025-05-20T09:00:00.000Z",
+    ]);
+    expect(account?.posts.map((post) => post.id)).toEqual([
+      "3kpin",
+      "3kp5",
+      "3kold",
+      "3kp4",
+      "3kp3",
+      "3kp2",
+      "3kp1",
+      "3kp0",
+    ]);
+  });
+
+  it("stops paging once a post is older than the window", async () => {
+    const account = await fetchAccount("ada.bsky.social", {
+      since: "2025-06-01",
+    });
+
+    // The old pin and the repost of an old post are skipped without ending
+    // the scan; the May post does end it, so the third page is never read
+    expect(feedCursors()).toEqual([undefined, "2025-06-03T16:00:00.000Z"]);
+    expect(account?.posts.map((post) => post.id)).toEqual([
+      "3kp5",
+      "3kp4",
+      "3kp3",
+      "3kp2",
+    ]);
+  });
+
+  it("stops paging once enough posts are collected", async () => {
+    const account = await fetchAccount("ada.bsky.social", {}, 3);
+
+    expect(feedCursors()).toEqual([undefined]);
+    expect(account?.posts).toHaveLength(3);
+  });
+
+  it("marks reposts and attaches quoted and parent posts", async () => {
+    const account = await fetchAccount("ada.bsky.social");
+    const byId = new Map(account?.posts.map((post) => [post.id, post]));
+
+    expect(byId.get("3kpin")).toMatchObject({ isPin: true, isRetweet: false });
+    expect(byId.get("3kold")).toMatchObject({
+      url: "https://bsky.app/profile/bob.bsky.social/post/3kold",
+      text: "An old classic worth resharing",
+      isRetweet: true,
+      likes: 400,
+    });
+    expect(byId.get("3kp4")).toMatchObject({
+      isQuote: true,
+      quoted: {
+        author: "cy.bsky.social",
+        text: "Small grants beat big ones",
+        url: "https://bsky.app/profile/cy.bsky.social/post/3kq",
+      },
+    });
+    // A quote alongside media sits one level deeper in the embed
+    expect(byId.get("3kp2")).toMatchObject({
+      isQuote: true,
+      quoted: {
+        author: "cy.bsky.social",
+        text: "Here's our new scoring rubric",
+      },
+    });
+    expect(byId.get("3kp3")).toMatchObject({
+      isReply: true,
+      parent: {
+        author: "bob.bsky.social",
+        text: "Short application windows get better proposals",
+        url: "https://bsky.app/profile/bob.bsky.social/post/3kr",
+      },
+    });
+    expect(byId.get("3kp5")).toMatchObject({
+      isReply: false,
+      isRetweet: false,
+      isQuote: false,
+      createdAt: "2025-06-05T12:00:00.000Z",
+    });
+  });
+
+  it("returns null for an account that doesn't exist", async () => {
+    await expect(fetchAccount("ghost.bsky.social")).resolves.toBeNull();
+    expect(feedCursors()).toEqual([]);
+  });
+});
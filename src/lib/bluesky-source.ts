@@ -0,0 +1,252 @@
+// src/lib/bluesky-source.ts
+import "server-only";
+import { logger } from "./logger";
+import { checkTweetWindow } from "./tweet-window";
+import type {
+  SocialDataSource,
+  SocialPost,
+  SocialPostContext,
+  SocialProfile,
+} from "./social-data-source";
+
+// Public, unauthenticated AppView. Override to point at a self-hosted AppView
+// or a local fixture server.
+const DEFAULT_APPVIEW_URL = "https://public.api.bsky.app";
+const FEED_PAGE_SIZE = 100; // Maximum allowed by getAuthorFeed
+const MAX_FEED_PAGES = 10;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Subset of app.bsky.actor.defs#profileViewDetailed
+interface BskyProfile {
+  did: string;
+  handle: string;
+  displayName?: string;
+  description?: string;
+  avatar?: string;
+  followersCount?: number;
+  postsCount?: number;
+}
+
+// Subset of app.bsky.embed.record#viewRecord (a quoted post)
+interface BskyViewRecord {
+  $type?: string;
+  uri?: string;
+  author?: { handle: string };
+  value?: { text?: string };
+}
+
+// Subset of app.bsky.feed.defs#postView
+interface BskyPostView {
+  uri: string;
+  author: { did: string; handle: string };
+  record: {
+    text?: string;
+    createdAt?: string;
+    reply?: unknown;
+  };
+  embed?: {
+    $type?: string;
+    // record#view holds the quote directly, recordWithMedia#view one level down
+    record?: BskyViewRecord & { record?: BskyViewRecord };
+  };
+  indexedAt?: string;
+  likeCount?: number;
+  repostCount?: number;
+  replyCount?: number;
+  quoteCount?: number;
+}
+
+// Subset of app.bsky.feed.defs#feedViewPost
+interface BskyFeedItem {
+  post: BskyPostView;
+  // The parent may also be a notFoundPost/blockedPost without a record
+  reply?: { parent?: Partial<BskyPostView> };
+  reason?: { $type?: string };
+}
+
+interface BskyAuthorFeed {
+  feed: BskyFeedItem[];
+  cursor?: string;
+}
+
+const getAppViewUrl = () =>
+  (process.env.BLUESKY_APPVIEW_URL || DEFAULT_APPVIEW_URL).replace(/\/$/, "");
+
+// GETs an XRPC query. Resolves null for "this actor does not exist" errors.
+async function xrpcQuery<T>(
+  method: string,
+  params: Record<string, string | number | undefined>
+): Promise<T | null> {
+  const url = new URL(`${getAppViewUrl()}/xrpc/${method}`);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  }
+
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (response.ok) return (await response.json()) as T;
+
+  const body = (await response.json().catch(() => ({}))) as {
+    error?: string;
+    message?: string;
+  };
+  // Unknown handles/DIDs come back as 400 InvalidRequest "Profile not found"
+  if (
+    response.status === 400 &&
+    /not found|unable to resolve|actor/i.test(body.message ?? "")
+  ) {
+    return null;
+  }
+  throw new Error(
+    `Bluesky ${method} failed: ${response.status} ${body.error ?? ""} ${body.message ?? ""}`.trim()
+  );
+}
+
+const REPOST_REASON = "app.bsky.feed.defs#reasonRepost";
+const PIN_REASON = "app.bsky.feed.defs#reasonPin";
+const QUOTE_EMBEDS = [
+  "app.bsky.embed.record#view",
+  "app.bsky.embed.recordWithMedia#view",
+];
+
+const VIEW_RECORD = "app.bsky.embed.record#viewRecord";
+
+const toPostUrl = (handle: string, uri: string) =>
+  `https://bsky.app/profile/${handle}/post/${uri.split("/").pop()}`;
+
+function getQuotedPost(post: BskyPostView): SocialPostContext | undefined {
+  const record =
+    post.embed?.record?.$type === VIEW_RECORD
+      ? post.embed.record
+      : post.embed?.record?.record;
+  if (record?.$type !== VIEW_RECORD || !record.value?.text) return undefined;
+  return {
+    author: record.author?.handle,
+    text: record.value.text,
+    url:
+      record.author && record.uri
+        ? toPostUrl(record.author.handle, record.uri)
+        : undefined,
+  };
+}
+
+function getParentPost(item: BskyFeedItem): SocialPostContext | undefined {
+  const parent = item.reply?.parent;
+  if (!parent?.record?.text || !parent.author || !parent.uri) return undefined;
+  return {
+    author: parent.author.handle,
+    text: parent.record.text,
+    url: toPostUrl(parent.author.handle, parent.uri),
+  };
+}
+
+function toSocialPost(item: BskyFeedItem): SocialPost {
+  const { post, reason } = item;
+  // at://did:plc:xyz/app.bsky.feed.post/<rkey>
+  const rkey = post.uri.split("/").pop();
+  const createdAt = new Date(post.record.createdAt ?? post.indexedAt ?? "");
+  return {
+    id: rkey,
+    url: `https://bsky.app/profile/${post.author.handle}/post/${rkey}`,
+    text: post.record.text ?? "",
+    createdAt: isNaN(createdAt.getTime())
+      ? new Date().toISOString()
+      : createdAt.toISOString(),
+    likes: post.likeCount ?? 0,
+    reposts: post.repostCount ?? 0,
+    replies: post.replyCount ?? 0,
+    quotes: post.quoteCount ?? 0,
+    isReply: !!post.record.reply,
+    isRetweet: reason?.$type === REPOST_REASON,
+    isQuote: QUOTE_EMBEDS.includes(post.embed?.$type ?? ""),
+    isPin: reason?.$type === PIN_REASON,
+    quoted: getQuotedPost(post),
+    parent: getParentPost(item),
+  };
+}
+
+const toSocialProfile = (profile: BskyProfile): SocialProfile => ({
+  username: profile.handle,
+  name: profile.displayName,
+  bio: profile.description,
+  followersCount: profile.followersCount,
+  postsCount: profile.postsCount,
+  avatarUrl: profile.avatar,
+  profileUrl: `https://bsky.app/profile/${profile.handle}`,
+});
+
+// Bluesky accounts via the public AT Protocol XRPC API. Accepts a handle or a
+// DID; getProfile resolves either.
+export const blueskySource: SocialDataSource = {
+  name: "bluesky",
+  isConfigured: () => true, // No credentials needed
+  async fetchAccount(actor, { tweetWindow, collectLimit, onPostsFetched }) {
+    const profile = await xrpcQuery<BskyProfile>("app.bsky.actor.getProfile", {
+      actor,
+    });
+    if (!profile) return null;
+
+    const posts: SocialPost[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_FEED_PAGES; page++) {
+      const authorFeed = await xrpcQuery<BskyAuthorFeed>(
+        "app.bsky.feed.getAuthorFeed",
+        {
+          actor: profile.did,
+          limit: FEED_PAGE_SIZE,
+          cursor,
+          filter: "posts_with_replies",
+          includePins: "true",
+        }
+      );
+      if (!authorFeed) break;
+
+      let isWindowExhausted = false;
+      for (const item of authorFeed.feed) {
+        const post = toSocialPost(item);
+        if (!post.text.trim()) continue;
+
+        // A repost carries the original post's date, so it never ends the scan
+        const verdict = checkTweetWindow(
+          post,
+          new Date(post.createdAt),
+          tweetWindow
+        );
+        if (verdict === "stop" && !post.isRetweet) {
+          isWindowExhausted = true;
+          break;
+        }
+        if (verdict !== "include") continue;
+
+        posts.push(post);
+        onPostsFetched?.(posts.length, collectLimit);
+        if (posts.length >= collectLimit) break;
+      }
+
+      cursor = authorFeed.cursor;
+      if (isWindowExhausted || posts.length >= collectLimit || !cursor) break;
+    }
+
+    logger.debug(
+      { actor, did: profile.did, postCount: posts.length },
+      "Fetched Bluesky author feed"
+    );
+    return {
+      source: "bluesky",
+      profile: toSocialProfile(profile),
+      posts,
+    };
+  },
+};
+
+// Just the profile picture, for placing an account on the chart
+export async function getBlueskyAvatarUrl(
+  actor: string
+): Promise<string | undefined> {
+  const profile = await xrpcQuery<BskyProfile>("app.bsky.actor.getProfile", {
+    actor,
+  });
+  return profile?.avatar;
+}
@@ -0,0 +1,137 @@
+// src/lib/cache-store.test.ts
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  createCacheStore,
+  type CacheStore,
+  type CacheStoreName,
+} from "./cache-store";
+
+// The redis store runs against an in-memory stand-in for ioredis, which
+// executes the stores' Lua scripts too
+vi.mock("ioredis", async () => ({
+  default: (await import("ioredis-mock")).default,
+}));
+
+let cacheDir: string;
+
+beforeAll(() => {
+  cacheDir = mkdtempSync(path.join(tmpdir(), "cache-store-"));
+  vi.stubEnv("CACHE_DIR", cacheDir);
+  vi.stubEnv("REDIS_URL", "redis://localhost:6379");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(cacheDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Expiry is checked against the clock, so only Date needs faking
+const advanceClock = (ms: number) => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(Date.now() + ms);
+};
+
+describe.each<CacheStoreName>(["memory", "file", "redis"])(
+  "%s store",
+  (name) => {
+    let store: CacheStore;
+    beforeAll(() => {
+      store = createCacheStore(name);
+    });
+    // Keys are unique per store so backends that share state can't collide
+    const key = (suffix: string) => `${name}:${suffix}`;
+
+    it("round-trips JSON values", async () => {
+      const value = { score: 1.5, tags: ["a", "b"], nested: { ok: true } };
+      await store.set(key("value"), value, 60);
+
+      expect(await store.get(key("value"))).toEqual(value);
+      expect(await store.get(key("missing"))).toBeNull();
+
+      await store.delete(key("value"));
+      expect(await store.get(key("value"))).toBeNull();
+    });
+
+    it("adds a key only while it's absent", async () => {
+      expect(await store.add(key("lock"), "first", 60)).toBe(true);
+      expect(await store.add(key("lock"), "second", 60)).toBe(false);
+      expect(await store.get(key("lock"))).toBe("first");
+    });
+
+    it("deletes and renews only while the key holds the value", async () => {
+      await store.add(key("owned"), "token-a", 60);
+
+      expect(await store.expireIfEquals(key("owned"), "token-b", 60)).toBe(
+        false
+      );
+      await store.deleteIfEquals(key("owned"), "token-b");
+      expect(await store.get(key("owned"))).toBe("token-a");
+
+      expect(await store.expireIfEquals(key("owned"), "token-a", 60)).toBe(
+        true
+      );
+      await store.deleteIfEquals(key("owned"), "token-a");
+      expect(await store.get(key("owned"))).toBeNull();
+    });
+
+    it("counts increments", async () => {
+      expect(await store.increment(key("counter"), 60)).toBe(1);
+      expect(await store.increment(key("counter"), 60)).toBe(2);
+      expect(await store.increment(key("other-counter"), 60)).toBe(1);
+      expect(await store.increment(key("counter"), 60)).toBe(3);
+    });
+
+    it("expires entries after their TTL", async () => {
+      await store.set(key("short"), "value", 1);
+      await store.add(key("short-lock"), "token", 1);
+      await store.increment(key("short-counter"), 1);
+
+      advanceClock(1_500);
+
+      expect(await store.get(key("short"))).toBeNull();
+      expect(await store.add(key("short-lock"), "token", 60)).toBe(true);
+      expect(await store.increment(key("short-counter"), 60)).toBe(1);
+    });
+  }
+);
+
+describe("createCacheStore", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.stubEnv("CACHE_DIR", cacheDir);
+    vi.stubEnv("REDIS_URL", "redis://localhost:6379");
+  });
+
+  it("uses CACHE_STORE when it's set", () => {
+    vi.stubEnv("CACHE_STORE", "file");
+    expect(createCacheStore().name).toBe("file");
+  });
+
+  it("picks redis when only REDIS_URL is set", () => {
+    vi.stubEnv("CACHE_STORE", "");
+    vi.stubEnv("KV_REST_API_URL", "");
+    expect(createCacheStore().name).toBe("redis");
+  });
+
+  it("falls back to memory when nothing is configured", () => {
+    vi.stubEnv("CACHE_STORE", "not-a-store");
+    vi.stubEnv("KV_REST_API_URL", "");
+    vi.stubEnv("REDIS_URL", "");
+    expect(createCacheStore().name).toBe("memory");
+  });
+});
@@ -0,0 +1,349 @@
+// src/lib/cache-store.ts
+import "server-only";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { Redis } from "@upstash/redis";
+import IORedis from "ioredis";
+import { logger } from "./logger";
+
+// Where getCachedData/setCachedData keep their data. CACHE_STORE picks one:
+//   upstash  Upstash REST (KV_REST_API_URL + KV_REST_API_TOKEN)
+//   redis    any Redis server over TCP/TLS (REDIS_URL)
+//   file     JSON files under CACHE_DIR (default .cache), survives restarts
+//   memory   in-process LRU of CACHE_MAX_ENTRIES (default 1000) entries
+// Unset, the first configured one of upstash, redis, memory is used, so local
+// dev and CI run without any external service.
+
+export const CACHE_STORES = ["upstash", "redis", "file", "memory"] as const;
+
+export type CacheStoreName = (typeof CACHE_STORES)[number];
+
+// Values are JSON-serialisable; ttlSeconds is always set by callers
+export interface CacheStore {
+  name: CacheStoreName;
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Atomic primitives for locks: set only if absent (true when it was set),
+  // and delete or reset the TTL only while the key still holds `value`
+  add(key: string, value: string, ttlSeconds: number): Promise<boolean>;
+  deleteIfEquals(key: string, value: string): Promise<void>;
+  // True when the key still held `value` and its TTL was reset
+  expireIfEquals(
+    key: string,
+    value: string,
+    ttlSeconds: number
+  ): Promise<boolean>;
+  // Atomic counter: adds one and returns the new count. The TTL is set when
+  // the counter is created and not extended by later increments.
+  increment(key: string, ttlSeconds: number): Promise<number>;
+}
+
+// Deletes KEYS[1] only if it still holds ARGV[1], in one round trip
+const DELETE_IF_EQUALS_SCRIPT = `if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("DEL", KEYS[1]) else return 0 end`;
+// Likewise resets KEYS[1]'s TTL to ARGV[2] seconds
+const EXPIRE_IF_EQUALS_SCRIPT = `if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("EXPIRE", KEYS[1], ARGV[2]) else return 0 end`;
+// INCRs KEYS[1], giving it a TTL of ARGV[1] seconds when it's new
+const INCREMENT_SCRIPT = `local count = redis.call("INCR", KEYS[1]) if count == 1 then redis.call("EXPIRE", KEYS[1], ARGV[1]) end return count`;
+
+const DEFAULT_CACHE_DIR = ".cache";
+const DEFAULT_MAX_ENTRIES = 1000;
+
+function createUpstashStore(): CacheStore {
+  if (!process.env.KV_REST_API_URL || !process.env.KV_REST_API_TOKEN) {
+    logger.error(
+      "Redis KV_REST_API_URL or KV_REST_API_TOKEN environment variables are not set."
+    );
+    throw new Error("Redis configuration missing.");
+  }
+  const client = new Redis({
+    url: process.env.KV_REST_API_URL,
+    token: process.env.KV_REST_API_TOKEN,
+  });
+  return {
+    name: "upstash",
+    get: (key) => client.get(key),
+    async set(key, value, ttlSeconds) {
+      await client.set(key, value, { ex: ttlSeconds });
+    },
+    async delete(key) {
+      await client.del(key);
+    },
+    async add(key, value, ttlSeconds) {
+      return (
+        (await client.set(key, value, { nx: true, ex: ttlSeconds })) !== null
+      );
+    },
+    async deleteIfEquals(key, value) {
+      await client.eval(DELETE_IF_EQUALS_SCRIPT, [key], [value]);
+    },
+    async expireIfEquals(key, value, ttlSeconds) {
+      const reply = await client.eval(
+        EXPIRE_IF_EQUALS_SCRIPT,
+        [key],
+        [value, String(ttlSeconds)]
+      );
+      return reply === 1;
+    },
+    async increment(key, ttlSeconds) {
+      return Number(
+        await client.eval(INCREMENT_SCRIPT, [key], [String(ttlSeconds)])
+      );
+    },
+  };
+}
+
+const REDIS_COMMAND_TIMEOUT_MS = 5_000;
+
+function createRedisStore(): CacheStore {
+  if (!process.env.REDIS_URL) {
+    throw new Error("REDIS_URL must be set to use the redis cache store.");
+  }
+  // Connects on first use and reconnects by itself after a drop; a command
+  // that can't be served in time fails rather than queueing indefinitely
+  const client = new IORedis(process.env.REDIS_URL, {
+    lazyConnect: true,
+    maxRetriesPerRequest: 1,
+    commandTimeout: REDIS_COMMAND_TIMEOUT_MS,
+  });
+  client.on("error", (error) =>
+    logger.warn({ err: error }, "Redis connection error")
+  );
+  // Values are stored as JSON strings, like the other stores' entries
+  return {
+    name: "redis",
+    async get(key) {
+      const raw = await client.get(key);
+      return raw === null ? null : JSON.parse(raw);
+    },
+    async set(key, value, ttlSeconds) {
+      await client.set(key, JSON.stringify(value), "EX", ttlSeconds);
+    },
+    async delete(key) {
+      await client.del(key);
+    },
+    async add(key, value, ttlSeconds) {
+      const reply = await client.set(
+        key,
+        JSON.stringify(value),
+        "EX",
+        ttlSeconds,
+        "NX"
+      );
+      return reply === "OK";
+    },
+    async deleteIfEquals(key, value) {
+      await client.eval(DELETE_IF_EQUALS_SCRIPT, 1, key, JSON.stringify(value));
+    },
+    async expireIfEquals(key, value, ttlSeconds) {
+      const reply = await client.eval(
+        EXPIRE_IF_EQUALS_SCRIPT,
+        1,
+        key,
+        JSON.stringify(value),
+        ttlSeconds
+      );
+      return reply === 1;
+    },
+    async increment(key, ttlSeconds) {
+      return Number(await client.eval(INCREMENT_SCRIPT, 1, key, ttlSeconds));
+    },
+  };
+}
+
+interface FileEntry {
+  key: string;
+  value: unknown;
+  expiresAt: number;
+}
+
+// One file per key, named by the key's hash so any key is a valid file name
+function createFileStore(): CacheStore {
+  const dir = path.resolve(process.env.CACHE_DIR || DEFAULT_CACHE_DIR);
+  const getPath = (key: string) =>
+    path.join(dir, `${createHash("sha256").update(key).digest("hex")}.json`);
+
+  const store: CacheStore = {
+    name: "file",
+    async get<T>(key: string) {
+      let entry: FileEntry;
+      try {
+        entry = JSON.parse(await fs.readFile(getPath(key), "utf8"));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        await fs.rm(getPath(key), { force: true });
+        return null;
+      }
+      return entry.value as T;
+    },
+    async set(key, value, ttlSeconds) {
+      const entry: FileEntry = {
+        key,
+        value,
+        expiresAt: Date.now() + ttlSeconds * 1000,
+      };
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename, so readers never see a half-written file
+      const filePath = getPath(key);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(entry));
+      await fs.rename(tempPath, filePath);
+    },
+    async delete(key) {
+      await fs.rm(getPath(key), { force: true });
+    },
+    async add(key, value, ttlSeconds) {
+      await store.get(key); // Clears an expired entry out of the way
+      const entry: FileEntry = {
+        key,
+        value,
+        expiresAt: Date.now() + ttlSeconds * 1000,
+      };
+      await fs.mkdir(dir, { recursive: true });
+      try {
+        // "wx" fails if the file exists, which makes this atomic across processes
+        await fs.writeFile(getPath(key), JSON.stringify(entry), { flag: "wx" });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "EEXIST") return false;
+        throw error;
+      }
+    },
+    async deleteIfEquals(key, value) {
+      if ((await store.get(key)) === value) await store.delete(key);
+    },
+    async expireIfEquals(key, value, ttlSeconds) {
+      if ((await store.get(key)) !== value) return false;
+      await store.set(key, value, ttlSeconds);
+      return true;
+    },
+    // Read-modify-write, so concurrent processes can lose a count; the file
+    // store is for local development only
+    async increment(key, ttlSeconds) {
+      let entry: FileEntry | null = null;
+      try {
+        entry = JSON.parse(await fs.readFile(getPath(key), "utf8"));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+      const isLive = !!entry && entry.expiresAt > Date.now();
+      const count = (isLive ? Number(entry!.value) : 0) + 1;
+      const ttlLeft = isLive
+        ? Math.ceil((entry!.expiresAt - Date.now()) / 1000)
+        : ttlSeconds;
+      await store.set(key, count, ttlLeft);
+      return count;
+    },
+  };
+  return store;
+}
+
+// Map iteration order is insertion order, so re-inserting on read keeps the
+// least recently used entry first in line for eviction
+function createMemoryStore(): CacheStore {
+  const maxEntries =
+    Number(process.env.CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES;
+  const entries = new Map<string, { json: string; expiresAt: number }>();
+
+  const store: CacheStore = {
+    name: "memory",
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+      entries.set(key, entry);
+      // Stored as JSON so callers can't mutate cached objects in place
+      return JSON.parse(entry.json) as T;
+    },
+    async set(key, value, ttlSeconds) {
+      entries.delete(key);
+      entries.set(key, {
+        json: JSON.stringify(value),
+        expiresAt: Date.now() + ttlSeconds * 1000,
+      });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async add(key, value, ttlSeconds) {
+      const existing = entries.get(key);
+      if (existing && existing.expiresAt > Date.now()) return false;
+      await store.set(key, value, ttlSeconds);
+      return true;
+    },
+    async deleteIfEquals(key, value) {
+      if (entries.get(key)?.json === JSON.stringify(value)) entries.delete(key);
+    },
+    async expireIfEquals(key, value, ttlSeconds) {
+      const entry = entries.get(key);
+      if (
+        !entry ||
+        entry.expiresAt <= Date.now() ||
+        entry.json !== JSON.stringify(value)
+      ) {
+        return false;
+      }
+      entry.expiresAt = Date.now() + ttlSeconds * 1000;
+      return true;
+    },
+    async increment(key, ttlSeconds) {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        await store.set(key, 1, ttlSeconds);
+        return 1;
+      }
+      const count = Number(JSON.parse(entry.json)) + 1;
+      entry.json = JSON.stringify(count);
+      return count;
+    },
+  };
+  return store;
+}
+
+function isCacheStoreName(value: string): value is CacheStoreName {
+  return (CACHE_STORES as readonly string[]).includes(value);
+}
+
+function resolveStoreName(): CacheStoreName {
+  const configured = process.env.CACHE_STORE?.trim().toLowerCase();
+  if (configured) {
+    if (isCacheStoreName(configured)) return configured;
+    logger.error(
+      { store: configured, available: CACHE_STORES },
+      "Unknown CACHE_STORE; falling back to the default store."
+    );
+  }
+  if (process.env.KV_REST_API_URL) return "upstash";
+  if (process.env.REDIS_URL) return "redis";
+  // Fine for `next dev`, but in a deployment it means a lost or misnamed
+  // variable: nothing is shared between instances or survives a restart
+  if (process.env.NODE_ENV !== "development") {
+    logger.warn(
+      "No cache store configured (CACHE_STORE, KV_REST_API_URL or REDIS_URL); falling back to the in-memory store."
+    );
+  }
+  return "memory";
+}
+
+export function createCacheStore(
+  name: CacheStoreName = resolveStoreName()
+): CacheStore {
+  switch (name) {
+    case "upstash":
+      return createUpstashStore();
+    case "redis":
+      return createRedisStore();
+    case "file":
+      return createFileStore();
+    case "memory":
+      return createMemoryStore();
+  }
+}
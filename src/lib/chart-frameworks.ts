@@ -0,0 +1,232 @@
+// src/lib/chart-frameworks.ts
+import type { AlignmentAxis } from "./alignment-confidence";
+
+// Scores are always stored in the two original slots, whatever the framework:
+// "lawfulChaotic" is the horizontal axis and "goodEvil" the vertical one. This
+// keeps cached analyses, saved placements and the on-chain snapshot format
+// (int8 lawfulChaotic / goodEvil) valid across frameworks.
+
+export interface AxisPole {
+  label: string; // e.g. "Lawful"
+  description: string; // Shown when the chart label is clicked
+}
+
+export interface FrameworkAxis {
+  slot: AlignmentAxis;
+  name: string; // e.g. "Lawful / Chaotic"
+  shortLabel: string; // e.g. "L/C"
+  negative: AxisPole; // -100: left for horizontal, top for vertical
+  positive: AxisPole; // 100: right for horizontal, bottom for vertical
+}
+
+export interface ChartFramework {
+  id: string;
+  name: string;
+  analystRole: string; // Completes "You are ..."
+  chartDescription: string; // Completes "... place them on ..."
+  horizontal: FrameworkAxis;
+  vertical: FrameworkAxis;
+  neutralLabel: string; // Used for an axis score inside the threshold
+  centerTrait: string; // Both axes neutral
+  traitThreshold: number; // |score| below this is neutral on that axis
+  verticalFirst: boolean; // "Authoritarian Left" rather than "Left Authoritarian"
+}
+
+interface TwoAxisDefinition {
+  id: string;
+  name: string;
+  analystRole?: string;
+  chartDescription?: string;
+  // [negative pole, positive pole]
+  horizontal: [AxisPole, AxisPole];
+  vertical: [AxisPole, AxisPole];
+  neutralLabel?: string;
+  centerTrait?: string;
+  traitThreshold?: number;
+  verticalFirst?: boolean;
+}
+
+const makeAxis = (
+  slot: AlignmentAxis,
+  [negative, positive]: [AxisPole, AxisPole]
+): FrameworkAxis => ({
+  slot,
+  name: `${negative.label} / ${positive.label}`,
+  shortLabel: `${negative.label[0]}/${positive.label[0]}`,
+  negative,
+  positive,
+});
+
+/**
+ * Builds a framework from just the four poles; everything else gets a
+ * sensible default. Use this to add a custom chart.
+ */
+export function defineTwoAxisFramework(
+  definition: TwoAxisDefinition
+): ChartFramework {
+  return {
+    id: definition.id,
+    name: definition.name,
+    analystRole:
+      definition.analystRole ??
+      `an expert analyst of online personas using the "${definition.name}" chart`,
+    chartDescription:
+      definition.chartDescription ?? `a two-axis "${definition.name}" chart`,
+    horizontal: makeAxis("lawfulChaotic", definition.horizontal),
+    vertical: makeAxis("goodEvil", definition.vertical),
+    neutralLabel: definition.neutralLabel ?? "Neutral",
+    centerTrait: definition.centerTrait ?? "True Neutral",
+    traitThreshold: definition.traitThreshold ?? 33,
+    verticalFirst: definition.verticalFirst ?? false,
+  };
+}
+
+export const DND_FRAMEWORK = defineTwoAxisFramework({
+  id: "dnd",
+  name: "D&D Alignment",
+  analystRole: "an expert D&D alignment analyst",
+  chartDescription: "a D&D-style chart",
+  horizontal: [
+    {
+      label: "Lawful",
+      description:
+        "Follows rules, traditions, social norms. Values order, loyalty.",
+    },
+    {
+      label: "Chaotic",
+      description:
+        "Rebels against convention, values personal freedom, own moral compass.",
+    },
+  ],
+  vertical: [
+    {
+      label: "Good",
+      description: "Altruistic, compassionate, puts others first.",
+    },
+    {
+      label: "Evil",
+      description:
+        "Selfish, manipulative, or harmful. Motivated by greed, hatred, or power.",
+    },
+  ],
+});
+
+export const POLITICAL_COMPASS_FRAMEWORK = defineTwoAxisFramework({
+  id: "political-compass",
+  name: "Political Compass",
+  analystRole: "an expert political analyst",
+  chartDescription:
+    "a political compass (economic left/right by social authoritarian/libertarian)",
+  horizontal: [
+    {
+      label: "Left",
+      description:
+        "Favours collective ownership, redistribution and regulation of markets.",
+    },
+    {
+      label: "Right",
+      description:
+        "Favours free markets, private property and minimal economic intervention.",
+    },
+  ],
+  vertical: [
+    {
+      label: "Authoritarian",
+      description:
+        "Favours strong state authority, order and tradition over individual liberty.",
+    },
+    {
+      label: "Libertarian",
+      description:
+        "Favours personal freedom and minimal state control over individual lives.",
+    },
+  ],
+  neutralLabel: "Centrist",
+  centerTrait: "Centrist",
+  verticalFirst: true,
+});
+
+// Example of a custom chart built from four poles
+export const TECH_TEMPERAMENT_FRAMEWORK = defineTwoAxisFramework({
+  id: "tech-temperament",
+  name: "Tech Temperament",
+  horizontal: [
+    {
+      label: "Builder",
+      description: "Ships things, shares progress, talks about making stuff.",
+    },
+    {
+      label: "Critic",
+      description: "Reviews, debates and critiques what others make.",
+    },
+  ],
+  vertical: [
+    {
+      label: "Optimist",
+      description: "Expects technology and the future to turn out well.",
+    },
+    {
+      label: "Doomer",
+      description: "Expects things to go wrong and warns about the risks.",
+    },
+  ],
+  centerTrait: "Balanced",
+  verticalFirst: true,
+});
+
+export const CHART_FRAMEWORKS: ChartFramework[] = [
+  DND_FRAMEWORK,
+  POLITICAL_COMPASS_FRAMEWORK,
+  TECH_TEMPERAMENT_FRAMEWORK,
+];
+
+export const DEFAULT_FRAMEWORK_ID = DND_FRAMEWORK.id;
+
+// Unknown or missing ids (e.g. analyses saved before frameworks) fall back to D&D
+export function getChartFramework(id?: string): ChartFramework {
+  return CHART_FRAMEWORKS.find((f) => f.id === id) ?? DND_FRAMEWORK;
+}
+
+export const getFrameworkAxis = (
+  framework: ChartFramework,
+  slot: AlignmentAxis
+): FrameworkAxis =>
+  slot === "lawfulChaotic" ? framework.horizontal : framework.vertical;
+
+// Text for the score fields in the structured-output schema and the prompt
+export const describeAxisScore = (axis: FrameworkAxis) =>
+  `A score from -100 (very ${axis.negative.label.toLowerCase()}) to 100 (very ${axis.positive.label.toLowerCase()})`;
+
+// Axis glossary for the system prompt, one line per score field
+export function describeFrameworkAxes(framework: ChartFramework): string {
+  return [framework.horizontal, framework.vertical]
+    .map(
+      (axis) =>
+        `- ${axis.slot} (${axis.name}): ${describeAxisScore(axis)}. ${axis.negative.label}: ${axis.negative.description} ${axis.positive.label}: ${axis.positive.description}`
+    )
+    .join("\n");
+}
+
+// e.g. "Lawful Evil", "Good Neutral", "Authoritarian Left", "True Neutral"
+export function getTraitName(
+  framework: ChartFramework,
+  horizontalScore: number,
+  verticalScore: number
+): string {
+  const poleFor = (axis: FrameworkAxis, score: number) =>
+    score <= -framework.traitThreshold
+      ? axis.negative.label
+      : score >= framework.traitThreshold
+        ? axis.positive.label
+        : null;
+
+  const horizontal = poleFor(framework.horizontal, horizontalScore);
+  const vertical = poleFor(framework.vertical, verticalScore);
+
+  if (!horizontal && !vertical) return framework.centerTrait;
+  if (!horizontal) return `${vertical} ${framework.neutralLabel}`;
+  if (!vertical) return `${horizontal} ${framework.neutralLabel}`;
+  return framework.verticalFirst
+    ? `${vertical} ${horizontal}`
+    : `${horizontal} ${vertical}`;
+}
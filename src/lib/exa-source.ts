@@ -0,0 +1,64 @@
+// src/lib/exa-source.ts
+import "server-only";
+import { fetchTwitterProfile } from "./fetch-twitter-profile";
+import type { Tweet, XProfile } from "./parse-exa-profile";
+import {
+  applyTweetWindow,
+  type SocialDataSource,
+  type SocialPost,
+} from "./social-data-source";
+
+function toSocialPost(tweet: Tweet): SocialPost {
+  const createdAt = new Date(tweet.created_at);
+  return {
+    text: tweet.text,
+    createdAt: isNaN(createdAt.getTime())
+      ? new Date().toISOString()
+      : createdAt.toISOString(),
+    likes: tweet.favorite_count ?? 0,
+    reposts: tweet.retweet_count ?? 0,
+    replies: tweet.reply_count ?? 0,
+    quotes: tweet.quote_count ?? 0,
+    isQuote: tweet.is_quote_status,
+  };
+}
+
+const byNewestFirst = (a: SocialPost, b: SocialPost) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+// Exa search results via the twitter_search MCP tool. Search can't prove an
+// account doesn't exist, so an empty result is reported as a failure.
+export const exaSource: SocialDataSource = {
+  name: "exa",
+  isConfigured: () =>
+    !!process.env.EXA_MCP_URL || !!process.env.EXA_MCP_COMMAND,
+  async fetchAccount(username, options) {
+    const profile: XProfile | null = await fetchTwitterProfile(username);
+    if (!profile) {
+      throw new Error(`Exa returned no usable data for @${username}`);
+    }
+
+    const posts = applyTweetWindow(
+      profile.tweets
+        .filter((tweet) => tweet.text?.trim())
+        .map(toSocialPost)
+        .sort(byNewestFirst),
+      options
+    );
+    options.onPostsFetched?.(posts.length, options.collectLimit);
+
+    return {
+      source: "exa",
+      profile: {
+        username,
+        name: profile.name,
+        bio: profile.bio,
+        location: profile.location,
+        followersCount: profile.followers_count,
+        postsCount: profile.statuses_count,
+        profileUrl: profile.profile_url,
+      },
+      posts,
+    };
+  },
+};
@@ -0,0 +1,110 @@
+// src/lib/fixtures.ts
+import "server-only";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { logger } from "./logger";
+
+// Record/replay for external calls (social data sources, Exa, LLMs, post
+// images, avatar lookups).
+//   FIXTURE_MODE=record  real responses are saved as JSON under FIXTURE_DIR
+//   FIXTURE_MODE=replay  saved responses are served back; nothing hits the network
+// Anything else (the default) leaves every call untouched.
+
+export type FixtureMode = "off" | "record" | "replay";
+
+const DEFAULT_FIXTURE_DIR = "fixtures";
+
+interface FixtureFile<T> {
+  namespace: string;
+  key: string;
+  recordedAt: string;
+  request: unknown; // What the key was derived from, for humans reading the file
+  response: T;
+}
+
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.FIXTURE_MODE?.trim().toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+const getFixtureDir = () =>
+  path.resolve(process.env.FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+
+// Same request → same key, so replays are deterministic
+export const getFixtureKey = (request: unknown) =>
+  createHash("sha256")
+    .update(JSON.stringify(request))
+    .digest("hex")
+    .slice(0, 16);
+
+const getFixturePath = (namespace: string, key: string) =>
+  path.join(getFixtureDir(), namespace, `${key}.json`);
+
+// Resolves undefined when nothing was recorded for this request
+export async function readFixture<T>(
+  namespace: string,
+  request: unknown
+): Promise<{ response: T } | undefined> {
+  const key = getFixtureKey(request);
+  try {
+    const file = await fs.readFile(getFixturePath(namespace, key), "utf8");
+    const fixture = JSON.parse(file) as FixtureFile<T>;
+    logger.debug({ namespace, key }, "Replaying fixture");
+    return { response: fixture.response };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+export async function writeFixture<T>(
+  namespace: string,
+  request: unknown,
+  response: T
+): Promise<void> {
+  const key = getFixtureKey(request);
+  const filePath = getFixturePath(namespace, key);
+  const fixture: FixtureFile<T> = {
+    namespace,
+    key,
+    recordedAt: new Date().toISOString(),
+    request,
+    response,
+  };
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(fixture, null, 2));
+    logger.info({ namespace, key, filePath }, "Recorded fixture");
+  } catch (error) {
+    // Recording is a dev aid; never fail the real request because of it
+    logger.warn({ err: error, namespace, key }, "Failed to write fixture");
+  }
+}
+
+/**
+ * Runs `produce` according to FIXTURE_MODE: passes straight through when off,
+ * saves its result when recording, and serves the saved result when replaying.
+ * Replaying a request that was never recorded is an error rather than a
+ * silent live call.
+ */
+export async function withFixture<T>(
+  namespace: string,
+  request: unknown,
+  produce: () => Promise<T>
+): Promise<T> {
+  const mode = getFixtureMode();
+  if (mode === "replay") {
+    const fixture = await readFixture<T>(namespace, request);
+    if (!fixture) {
+      throw new Error(
+        `No ${namespace} fixture recorded for key ${getFixtureKey(request)}. Run with FIXTURE_MODE=record first.`
+      );
+    }
+    return fixture.response;
+  }
+
+  const response = await produce();
+  if (mode === "record") await writeFixture(namespace, request, response);
+  return response;
+}
@@ -1,5 +1,7 @@
 // src/lib/indexed-db.ts
 import type { AlignmentAnalysis } from "@/app/actions/analyze-tweets"; // Adjust path
+import type { DriftPoint } from "./alignment-drift";
+import type { SocialPlatform } from "./social-handle";
 import type { Placement } from "@/app/types"; // This will be defined in page.tsx
 import { logger } from "./logger"; // Adjust path
 
@@ -11,7 +13,9 @@ export interface StoredPlacement {
     y: number;
   };
   username?: string;
+  platform?: SocialPlatform;
   analysis?: AlignmentAnalysis; // Storing the core analysis part
+  drift?: DriftPoint[];
   isAiPlaced?: boolean;
   timestamp?: string; // Store as ISO string
 }
@@ -96,7 +100,9 @@ function toStoredPlacement(placement: Placement): StoredPlacement {
     src: placement.src,
     position: placement.position,
     username: placement.username,
+    platform: placement.platform,
     analysis: placement.analysis, // Assuming Placement has AlignmentAnalysis directly
+    drift: placement.drift,
     isAiPlaced: placement.isAiPlaced,
     timestamp:
       placement.timestamp instanceof Date
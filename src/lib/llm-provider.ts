@@ -0,0 +1,353 @@
+// src/lib/llm-provider.ts
+import "server-only";
+import { createHash } from "crypto";
+import { google } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import {
+  createProviderRegistry,
+  NoSuchModelError,
+  simulateReadableStream,
+  wrapLanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1Middleware,
+  type LanguageModelV1StreamPart,
+  type Provider,
+} from "ai";
+import { logger } from "./logger";
+import {
+  getFixtureMode,
+  readFixture,
+  withFixture,
+  writeFixture,
+} from "./fixtures";
+
+export const LLM_PROVIDERS = [
+  "gemini",
+  "openai-compatible",
+  "ollama",
+  "mock",
+] as const;
+
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+// Used when LLM_MODEL is not set for the selected provider
+const DEFAULT_MODEL_IDS: Record<LLMProviderName, string> = {
+  gemini: "gemini-1.5-flash-latest",
+  "openai-compatible": "gpt-4o-mini",
+  ollama: "llama3.1",
+  mock: "alignment-v1",
+};
+
+export interface ResolvedModel {
+  provider: LLMProviderName;
+  modelId: string;
+  // `${provider}:${modelId}` - stable id used in cache keys and results
+  id: string;
+  model: LanguageModelV1;
+}
+
+// --- Deterministic mock model ---
+// Produces a schema-conforming JSON object whose values are derived from a hash
+// of the prompt, so the same input always yields the same analysis. Lets the
+// whole analysis flow run offline (local dev, CI) without any API keys.
+
+type JsonSchemaNode = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchemaNode>;
+  items?: JsonSchemaNode | JsonSchemaNode[];
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  minLength?: number;
+  description?: string;
+};
+
+function createSeededRandom(seed: string): () => number {
+  let counter = 0;
+  return () => {
+    const digest = createHash("sha256").update(`${seed}:${counter++}`).digest();
+    return digest.readUInt32BE(0) / 0xffffffff;
+  };
+}
+
+function mockValueForSchema(
+  schema: JsonSchemaNode | undefined,
+  random: () => number,
+  path: string
+): unknown {
+  if (!schema) return null;
+  if (schema.enum?.length) {
+    return schema.enum[Math.floor(random() * schema.enum.length)];
+  }
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t) => t !== "null")
+    : schema.type;
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, child]) => [
+          key,
+          mockValueForSchema(child, random, path ? `${path}.${key}` : key),
+        ])
+      );
+    case "array": {
+      const itemSchema = Array.isArray(schema.items)
+        ? schema.items[0]
+        : schema.items;
+      const count = Math.max(schema.minItems ?? 0, 1);
+      return Array.from({ length: count }, (_, i) =>
+        mockValueForSchema(itemSchema, random, `${path}[${i}]`)
+      );
+    }
+    case "number":
+    case "integer": {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? 1;
+      const value = min + random() * (max - min);
+      // Keep fractions for narrow ranges such as 0..1 certainties
+      return type === "integer" || max - min > 1
+        ? Math.round(value)
+        : Math.round(value * 100) / 100;
+    }
+    case "boolean":
+      return random() >= 0.5;
+    case "string":
+      return `Mock ${path || "value"} generated deterministically for offline use.`;
+    default:
+      return null;
+  }
+}
+
+function buildMockResponseText(options: LanguageModelV1CallOptions): string {
+  const seed = JSON.stringify(options.prompt);
+  const schema =
+    options.mode.type === "object-json"
+      ? (options.mode.schema as JsonSchemaNode | undefined)
+      : undefined;
+
+  if (!schema) {
+    return "Mock response generated deterministically for offline use.";
+  }
+  return JSON.stringify(
+    mockValueForSchema(schema, createSeededRandom(seed), "")
+  );
+}
+
+function createMockLanguageModel(modelId: string): LanguageModelV1 {
+  const usage = { promptTokens: 0, completionTokens: 0 };
+
+  return {
+    specificationVersion: "v1",
+    provider: "mock",
+    modelId,
+    defaultObjectGenerationMode: "json",
+    async doGenerate(options) {
+      return {
+        text: buildMockResponseText(options),
+        finishReason: "stop",
+        usage,
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+    async doStream(options) {
+      const text = buildMockResponseText(options);
+      // Emit in small chunks so partial-object consumers see real progress
+      const chunks: LanguageModelV1StreamPart[] = (
+        text.match(/[\s\S]{1,24}/g) ?? []
+      ).map((textDelta) => ({ type: "text-delta", textDelta }));
+      chunks.push({ type: "finish", finishReason: "stop", usage });
+
+      return {
+        stream: simulateReadableStream({
+          chunks,
+          initialDelayInMs: null,
+          chunkDelayInMs: null,
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+}
+
+const mockProvider: Provider = {
+  languageModel: (modelId) => createMockLanguageModel(modelId),
+  textEmbeddingModel: (modelId) => {
+    throw new NoSuchModelError({ modelId, modelType: "textEmbeddingModel" });
+  },
+  imageModel: (modelId) => {
+    throw new NoSuchModelError({ modelId, modelType: "imageModel" });
+  },
+};
+
+// --- Record/replay ---
+// With FIXTURE_MODE set, model calls are keyed on the model and the exact
+// prompt/settings and saved to or served from fixture files (see fixtures.ts).
+
+// Image bytes are keyed by their digest: serialized as JSON they'd make every
+// fixture file megabytes long, and the images are recorded on their own
+// (see post-images.ts)
+const digestImageParts = (prompt: LanguageModelV1CallOptions["prompt"]) =>
+  prompt.map((message) =>
+    message.role !== "user"
+      ? message
+      : {
+          ...message,
+          content: message.content.map((part) =>
+            part.type === "image" && part.image instanceof Uint8Array
+              ? {
+                  ...part,
+                  image: `sha256:${createHash("sha256").update(part.image).digest("hex")}`,
+                }
+              : part
+          ),
+        }
+  );
+
+const getLLMFixtureRequest = (
+  model: LanguageModelV1,
+  params: LanguageModelV1CallOptions
+) => ({
+  model: `${model.provider}:${model.modelId}`,
+  prompt: digestImageParts(params.prompt),
+  mode: params.mode,
+  temperature: params.temperature,
+});
+
+const fixtureMiddleware: LanguageModelV1Middleware = {
+  async wrapGenerate({ doGenerate, params, model }) {
+    return withFixture("llm", getLLMFixtureRequest(model, params), async () => {
+      // Keep only JSON-safe fields; response metadata holds Dates and headers.
+      // The raw prompt is left out as it repeats the request, images and all.
+      const { text, finishReason, usage, rawCall, providerMetadata } =
+        await doGenerate();
+      return {
+        text,
+        finishReason,
+        usage,
+        rawCall: { rawPrompt: null, rawSettings: rawCall.rawSettings },
+        providerMetadata,
+      };
+    });
+  },
+  async wrapStream({ doStream, params, model }) {
+    const request = { ...getLLMFixtureRequest(model, params), stream: true };
+    const rawCall = { rawPrompt: params.prompt, rawSettings: {} };
+
+    if (getFixtureMode() === "replay") {
+      const fixture = await readFixture<LanguageModelV1StreamPart[]>(
+        "llm",
+        request
+      );
+      if (!fixture) {
+        throw new Error(
+          "No llm stream fixture recorded for this prompt. Run with FIXTURE_MODE=record first."
+        );
+      }
+      return {
+        stream: simulateReadableStream({
+          chunks: fixture.response,
+          initialDelayInMs: null,
+          chunkDelayInMs: null,
+        }),
+        rawCall,
+      };
+    }
+
+    const result = await doStream();
+    const chunks: LanguageModelV1StreamPart[] = [];
+    let hasError = false;
+    const recorder = new TransformStream<
+      LanguageModelV1StreamPart,
+      LanguageModelV1StreamPart
+    >({
+      transform(chunk, controller) {
+        if (chunk.type === "error") hasError = true;
+        // Response metadata carries a Date; it is not needed for replay
+        if (chunk.type !== "response-metadata") chunks.push(chunk);
+        controller.enqueue(chunk);
+      },
+      async flush() {
+        if (!hasError) await writeFixture("llm", request, chunks);
+      },
+    });
+    return { ...result, stream: result.stream.pipeThrough(recorder) };
+  },
+};
+
+// --- Registry ---
+
+let providerRegistry: ReturnType<typeof createLLMRegistry> | null = null;
+
+function createLLMRegistry() {
+  return createProviderRegistry({
+    gemini: google,
+    "openai-compatible": createOpenAICompatible({
+      name: "openai-compatible",
+      baseURL:
+        process.env.OPENAI_COMPATIBLE_BASE_URL || "https://api.openai.com/v1",
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    }),
+    // Ollama (and llama.cpp / LM Studio style servers) expose an OpenAI-compatible API
+    ollama: createOpenAICompatible({
+      name: "ollama",
+      baseURL: process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+    }),
+    mock: mockProvider,
+  });
+}
+
+function getLLMRegistry() {
+  if (!providerRegistry) {
+    providerRegistry = createLLMRegistry();
+  }
+  return providerRegistry;
+}
+
+function isLLMProviderName(value: string): value is LLMProviderName {
+  return (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolves the language model used for analysis.
+ *
+ * `spec` is either `"provider"` or `"provider:modelId"`. When omitted, the
+ * LLM_PROVIDER / LLM_MODEL environment variables are used, defaulting to Gemini.
+ */
+export function resolveModel(spec?: string): ResolvedModel {
+  const [rawProvider, ...modelIdParts] = (
+    spec ||
+    process.env.LLM_PROVIDER ||
+    "gemini"
+  )
+    .trim()
+    .split(":");
+  const provider = rawProvider.toLowerCase();
+
+  if (!isLLMProviderName(provider)) {
+    logger.error(
+      { provider, available: LLM_PROVIDERS },
+      "Unknown LLM provider configured."
+    );
+    throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+
+  const modelId =
+    modelIdParts.join(":") ||
+    (!spec && process.env.LLM_MODEL) ||
+    DEFAULT_MODEL_IDS[provider];
+  const id = `${provider}:${modelId}` as const;
+
+  const model = getLLMRegistry().languageModel(id);
+  return {
+    provider,
+    modelId,
+    id,
+    model:
+      getFixtureMode() === "off"
+        ? model
+        : wrapLanguageModel({ model, middleware: fixtureMiddleware }),
+  };
+}
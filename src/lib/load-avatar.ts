@@ -1,5 +1,7 @@
 // src/lib/load-avatar.ts
 // import { logger } from "./logger"; // Adjust path if/when needed
+import { resolveAvatarUrl } from "@/app/actions/resolve-avatar";
+import type { SocialPlatform } from "./social-handle";
 
 export const loadImage = (url: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
@@ -87,8 +89,30 @@ export const analyzeColorfulness = (
   }
 };
 
-export const getBestAvatarUrl = async (username: string): Promise<string> => {
+// Bluesky and Mastodon avatars are looked up by a server action, which
+// records and replays them like the rest of an analysis run. X avatars are
+// picked here by loading unavatar.io candidates as images; that makes no API
+// calls and only affects what's displayed, so it's left out of record/replay.
+const lookUpAvatarUrl = (handle: string, platform: SocialPlatform) =>
+  resolveAvatarUrl(handle, platform).catch(() => null);
+
+export const getBestAvatarUrl = async (
+  username: string,
+  platform: SocialPlatform = "x"
+): Promise<string> => {
   const cleanUsername = username.trim().replace(/^@/, "");
+  if (platform === "bluesky") {
+    return (
+      (await lookUpAvatarUrl(cleanUsername, platform)) ??
+      `https://unavatar.io/${cleanUsername}`
+    );
+  }
+  if (platform === "mastodon") {
+    return (
+      (await lookUpAvatarUrl(cleanUsername, platform)) ??
+      `https://unavatar.io/${cleanUsername.split("@")[1]}`
+    );
+  }
   const withAtUrl = `https://unavatar.io/twitter/@${cleanUsername}`;
   const withoutAtUrl = `https://unavatar.io/twitter/${cleanUsername}`;
   const fallbackUrl = `https://unavatar.io/${cleanUsername}`;
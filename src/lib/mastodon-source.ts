@@ -0,0 +1,412 @@
+// src/lib/mastodon-source.ts
+import "server-only";
+import { logger } from "./logger";
+import { htmlToText } from "./html-to-text";
+import { checkTweetWindow } from "./tweet-window";
+import { publicFetch } from "./public-fetch";
+import type {
+  FetchAccountOptions,
+  SocialAccountData,
+  SocialDataSource,
+  SocialPost,
+  SocialPostContext,
+  SocialProfile,
+} from "./social-data-source";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const STATUSES_PAGE_SIZE = 40; // Maximum allowed by the Mastodon API
+const MAX_PAGES = 10;
+const ACTIVITY_JSON = "application/activity+json";
+// Replied-to posts are fetched one by one; this caps those extra requests
+const MAX_CONTEXT_LOOKUPS = 10;
+
+// Subset of the Mastodon API Account entity
+interface MastodonAccount {
+  id: string;
+  username: string;
+  acct: string;
+  display_name?: string;
+  note?: string; // HTML
+  avatar?: string;
+  url?: string;
+  followers_count?: number;
+  statuses_count?: number;
+}
+
+// Subset of the Mastodon API Status entity
+interface MastodonStatus {
+  id: string;
+  url?: string | null;
+  uri: string;
+  created_at: string;
+  content: string; // HTML
+  spoiler_text?: string;
+  in_reply_to_id?: string | null;
+  reblog?: MastodonStatus | null;
+  account?: Pick<MastodonAccount, "acct">;
+  // Mastodon 4.4+ quote posts; quoted_status is null until the quote is accepted
+  quote?: { state?: string; quoted_status?: MastodonStatus | null } | null;
+  favourites_count?: number;
+  reblogs_count?: number;
+  replies_count?: number;
+  pinned?: boolean;
+}
+
+// Subset of an ActivityPub Person actor
+interface ActivityPubActor {
+  id: string;
+  preferredUsername?: string;
+  name?: string;
+  summary?: string; // HTML
+  url?: string;
+  icon?: { url?: string } | { url?: string }[];
+  outbox?: string;
+}
+
+interface ActivityPubObject {
+  id?: string;
+  url?: string;
+  content?: string; // HTML
+  published?: string;
+  attributedTo?: string;
+  inReplyTo?: string | null;
+  quoteUrl?: string;
+}
+
+interface ActivityPubPage {
+  orderedItems?: {
+    type?: string;
+    published?: string;
+    object?: ActivityPubObject | string;
+  }[];
+  next?: string;
+  first?: string | ActivityPubPage;
+}
+
+// Every URL here comes from the user or a remote server, hence publicFetch
+async function getJson<T>(url: string, accept = "application/json") {
+  const response = await publicFetch(url, {
+    headers: { Accept: accept },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (response.status === 404 || response.status === 410) return null;
+  if (!response.ok) {
+    throw new Error(`Fediverse request failed: ${response.status} ${url}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Resolves user@domain via WebFinger to the ActivityPub actor URL. The actor
+ * may live on a different host than the address' domain, so API calls must
+ * go to the actor's origin.
+ */
+async function webFinger(user: string, domain: string) {
+  const resource = `acct:${user}@${domain}`;
+  const jrd = await getJson<{
+    subject?: string;
+    links?: { rel: string; type?: string; href?: string }[];
+  }>(
+    `https://${domain}/.well-known/webfinger?resource=${encodeURIComponent(resource)}`,
+    "application/jrd+json"
+  );
+  const actorUrl = jrd?.links?.find(
+    (link) => link.rel === "self" && link.type?.includes("activity+json")
+  )?.href;
+  if (!actorUrl) return null;
+  return { actorUrl, subject: jrd?.subject ?? resource };
+}
+
+const toIsoDate = (value?: string) => {
+  const date = new Date(value ?? "");
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+// Content warnings are part of what the user chose to say, so keep them
+const statusText = (status: MastodonStatus) =>
+  [status.spoiler_text, htmlToText(status.content)].filter(Boolean).join("\n");
+
+function toPostContext(
+  status?: MastodonStatus | null
+): SocialPostContext | undefined {
+  const text = status && statusText(status);
+  if (!status || !text) return undefined;
+  return { author: status.account?.acct, text, url: status.url ?? status.uri };
+}
+
+function toSocialPost(status: MastodonStatus): SocialPost {
+  const original = status.reblog ?? status;
+  return {
+    id: status.id,
+    url: original.url ?? original.uri,
+    text: statusText(original),
+    createdAt: toIsoDate(status.created_at),
+    likes: original.favourites_count ?? 0,
+    reposts: original.reblogs_count ?? 0,
+    replies: original.replies_count ?? 0,
+    quotes: 0, // Not exposed by the statuses API
+    isReply: !!original.in_reply_to_id,
+    isRetweet: !!status.reblog,
+    isQuote: !!original.quote,
+    isPin: status.pinned,
+    quoted: toPostContext(original.quote?.quoted_status),
+  };
+}
+
+/**
+ * Fills in the posts replies were made to, which statuses only reference by
+ * id. Statuses already collected are reused; the rest are fetched from the
+ * instance, at most MAX_CONTEXT_LOOKUPS of them. Missing context only makes
+ * the prompt thinner, so lookup failures are logged and skipped.
+ */
+async function addParentContext(
+  origin: string,
+  collected: { post: SocialPost; status: MastodonStatus }[]
+) {
+  const known = new Map(
+    collected.map(({ status }) => {
+      const original = status.reblog ?? status;
+      return [original.id, original];
+    })
+  );
+  let lookups = 0;
+
+  const resolve = async (id: string) => {
+    if (known.has(id)) return toPostContext(known.get(id));
+    if (lookups >= MAX_CONTEXT_LOOKUPS) return undefined;
+    lookups++;
+    try {
+      const status = await getJson<MastodonStatus>(
+        `${origin}/api/v1/statuses/${encodeURIComponent(id)}`
+      );
+      if (status) known.set(id, status);
+      return toPostContext(status);
+    } catch (error) {
+      logger.debug(
+        { err: error, origin, statusId: id },
+        "Could not fetch parent status"
+      );
+      return undefined;
+    }
+  };
+
+  for (const { post, status } of collected) {
+    const parentId = (status.reblog ?? status).in_reply_to_id;
+    if (parentId) post.parent = await resolve(parentId);
+  }
+}
+
+// Pages through the Mastodon statuses API until the window or limit is filled
+async function collectStatuses(
+  origin: string,
+  accountId: string,
+  { tweetWindow, collectLimit, onPostsFetched }: FetchAccountOptions
+): Promise<{ post: SocialPost; status: MastodonStatus }[]> {
+  const collected: { post: SocialPost; status: MastodonStatus }[] = [];
+  let maxId: string | undefined;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const url = new URL(`${origin}/api/v1/accounts/${accountId}/statuses`);
+    url.searchParams.set("limit", String(STATUSES_PAGE_SIZE));
+    if (maxId) url.searchParams.set("max_id", maxId);
+    const statuses = await getJson<MastodonStatus[]>(url.toString());
+    if (!statuses?.length) break;
+
+    for (const status of statuses) {
+      const post = toSocialPost(status);
+      if (!post.text.trim()) continue;
+
+      const verdict = checkTweetWindow(
+        post,
+        new Date(post.createdAt),
+        tweetWindow
+      );
+      if (verdict === "stop") return collected;
+      if (verdict === "skip") continue;
+
+      collected.push({ post, status });
+      onPostsFetched?.(collected.length, collectLimit);
+      if (collected.length >= collectLimit) return collected;
+    }
+    maxId = statuses[statuses.length - 1].id;
+  }
+  return collected;
+}
+
+// Fallback for non-Mastodon servers: read the actor's public outbox. Links in
+// the remote JSON are only followed to `trustedOrigins` (the WebFinger domain
+// and the actor's own origin), so a server can't send us anywhere else.
+async function fetchFromOutbox(
+  actor: ActivityPubActor,
+  handle: string,
+  trustedOrigins: Set<string>,
+  { tweetWindow, collectLimit, onPostsFetched }: FetchAccountOptions
+): Promise<SocialAccountData> {
+  const getLinkedPage = async (url?: string) => {
+    if (!url) return null;
+    if (!trustedOrigins.has(new URL(url).origin)) {
+      logger.warn(
+        { url, trustedOrigins: [...trustedOrigins] },
+        "Not following ActivityPub link to another origin"
+      );
+      return null;
+    }
+    return getJson<ActivityPubPage>(url, ACTIVITY_JSON);
+  };
+
+  // Parents are looked up the same way, so only replies within the trusted
+  // origins (mostly the account's own threads) get one. Replies to posts on
+  // other servers are left without parent context.
+  let parentLookups = 0;
+  const getParent = async (
+    url?: string | null
+  ): Promise<SocialPostContext | undefined> => {
+    if (!url || parentLookups >= MAX_CONTEXT_LOOKUPS) return undefined;
+    try {
+      if (!trustedOrigins.has(new URL(url).origin)) return undefined;
+      parentLookups++;
+      const parent = await getJson<ActivityPubObject>(url, ACTIVITY_JSON);
+      const text = htmlToText(parent?.content ?? "");
+      if (!parent || !text) return undefined;
+      return {
+        author: parent.attributedTo === actor.id ? handle : undefined,
+        text,
+        url: parent.url ?? parent.id,
+      };
+    } catch (error) {
+      logger.debug({ err: error, url }, "Could not fetch parent object");
+      return undefined;
+    }
+  };
+
+  const icon = Array.isArray(actor.icon) ? actor.icon[0] : actor.icon;
+  const profile: SocialProfile = {
+    username: handle,
+    name: actor.name,
+    bio: actor.summary ? htmlToText(actor.summary) : undefined,
+    avatarUrl: icon?.url,
+    profileUrl: actor.url ?? actor.id,
+  };
+
+  const posts: SocialPost[] = [];
+  const outbox = await getLinkedPage(actor.outbox);
+  let page: ActivityPubPage | null =
+    typeof outbox?.first === "string"
+      ? await getLinkedPage(outbox.first)
+      : (outbox?.first ?? outbox);
+
+  for (let pageCount = 0; page && pageCount < MAX_PAGES; pageCount++) {
+    for (const activity of page.orderedItems ?? []) {
+      // Announces (boosts) only reference the boosted object by URL
+      if (activity.type !== "Create" || typeof activity.object !== "object") {
+        continue;
+      }
+      const object = activity.object;
+      const post: SocialPost = {
+        id: object.id,
+        url: object.url ?? object.id,
+        text: htmlToText(object.content ?? ""),
+        createdAt: toIsoDate(object.published ?? activity.published),
+        likes: 0,
+        reposts: 0,
+        replies: 0,
+        quotes: 0,
+        isReply: !!object.inReplyTo,
+        isQuote: !!object.quoteUrl,
+      };
+      if (!post.text.trim()) continue;
+
+      const verdict = checkTweetWindow(
+        post,
+        new Date(post.createdAt),
+        tweetWindow
+      );
+      if (verdict === "stop") return { source: "activitypub", profile, posts };
+      if (verdict === "skip") continue;
+
+      post.parent = await getParent(object.inReplyTo);
+      posts.push(post);
+      onPostsFetched?.(posts.length, collectLimit);
+      if (posts.length >= collectLimit) {
+        return { source: "activitypub", profile, posts };
+      }
+    }
+    page = await getLinkedPage(page.next);
+  }
+  return { source: "activitypub", profile, posts };
+}
+
+// Mastodon and other ActivityPub accounts, addressed as "user@instance".
+// Uses the Mastodon REST API where the server has it (most instances require
+// signed requests for outboxes), and the public outbox otherwise.
+export const mastodonSource: SocialDataSource = {
+  name: "mastodon",
+  isConfigured: () => true, // Public APIs, no credentials needed
+  async fetchAccount(handle, options) {
+    const [user, domain] = handle.split("@");
+    if (!user || !domain) return null;
+
+    const resolved = await webFinger(user, domain);
+    if (!resolved) return null;
+    const origin = new URL(resolved.actorUrl).origin;
+    const acct = resolved.subject.replace(/^acct:/, "");
+
+    const account = await getJson<MastodonAccount>(
+      `${origin}/api/v1/accounts/lookup?acct=${encodeURIComponent(acct)}`
+    ).catch((error) => {
+      logger.debug(
+        { err: error, origin },
+        "Mastodon API lookup failed, falling back to the ActivityPub outbox"
+      );
+      return null;
+    });
+
+    if (!account) {
+      const actor = await getJson<ActivityPubActor>(
+        resolved.actorUrl,
+        ACTIVITY_JSON
+      );
+      if (!actor) return null;
+      return fetchFromOutbox(
+        actor,
+        acct,
+        new Set([`https://${domain}`, origin]),
+        options
+      );
+    }
+
+    const collected = await collectStatuses(origin, account.id, options);
+    await addParentContext(origin, collected);
+    const posts = collected.map(({ post }) => post);
+    logger.debug(
+      { handle, acct, origin, postCount: posts.length },
+      "Fetched Mastodon statuses"
+    );
+    return {
+      source: "mastodon",
+      profile: {
+        username: acct,
+        name: account.display_name || account.username,
+        bio: account.note ? htmlToText(account.note) : undefined,
+        followersCount: account.followers_count,
+        postsCount: account.statuses_count,
+        avatarUrl: account.avatar,
+        profileUrl: account.url,
+      },
+      posts,
+    };
+  },
+};
+
+// Just the profile picture, for placing an account on the chart. Uses the
+// address' own instance; accounts on non-Mastodon servers get undefined.
+export async function getMastodonAvatarUrl(
+  address: string
+): Promise<string | undefined> {
+  const [user, domain] = address.split("@");
+  if (!user || !domain) return undefined;
+  const account = await getJson<MastodonAccount>(
+    `https://${domain}/api/v1/accounts/lookup?acct=${encodeURIComponent(user)}`
+  );
+  return account?.avatar;
+}
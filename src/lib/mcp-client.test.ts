@@ -0,0 +1,199 @@
+// src/lib/mcp-client.test.ts
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createMcpClient,
+  createStreamableHttpTransport,
+  isMcpConnectionError,
+  type McpTransport,
+} from "./mcp-client";
+
+type Message = Parameters<McpTransport["send"]>[0];
+
+// A transport that hands every request to the test, which answers it (or
+// not) through `reply`
+function createMemoryTransport() {
+  const requests: Message[] = [];
+  const transport = {
+    requests,
+    async start() {},
+    async send(message: Message) {
+      requests.push(message);
+      if (message.method === "initialize") {
+        transport.reply(message.id!, {
+          protocolVersion: "2025-03-26",
+          serverInfo: { name: "memory-server" },
+        });
+      }
+    },
+    async close() {},
+    reply(id: number | string, result: unknown) {
+      transport.onmessage?.({ jsonrpc: "2.0", id, result });
+    },
+    fail(id: number | string, code: number, message: string) {
+      transport.onmessage?.({ jsonrpc: "2.0", id, error: { code, message } });
+    },
+    onmessage: undefined as McpTransport["onmessage"],
+    onclose: undefined as McpTransport["onclose"],
+  };
+  return transport;
+}
+
+const lastRequest = (transport: ReturnType<typeof createMemoryTransport>) =>
+  transport.requests[transport.requests.length - 1];
+
+describe("createMcpClient", () => {
+  it("performs the initialize handshake", async () => {
+    const transport = createMemoryTransport();
+    const client = await createMcpClient(transport);
+
+    expect(client.serverInfo).toEqual({ name: "memory-server" });
+    expect(transport.requests.map((request) => request.method)).toEqual([
+      "initialize",
+      "notifications/initialized",
+    ]);
+    expect(transport.requests[1].id).toBeUndefined();
+  });
+
+  it("matches responses to requests by id", async () => {
+    const transport = createMemoryTransport();
+    const client = await createMcpClient(transport);
+
+    const first = client.callTool("search", { query: "first" });
+    const firstId = lastRequest(transport).id!;
+    const second = client.callTool("search", { query: "second" });
+    const secondId = lastRequest(transport).id!;
+    expect(secondId).not.toBe(firstId);
+
+    // Answered out of order, with a stray id in between
+    transport.reply(secondId, { structuredContent: "second result" });
+    transport.reply(999, { structuredContent: "nobody asked" });
+    transport.reply(firstId, { structuredContent: "first result" });
+
+    expect(await first).toEqual({ structuredContent: "first result" });
+    expect(await second).toEqual({ structuredContent: "second result" });
+  });
+
+  it("rejects with the server's error reply", async () => {
+    const transport = createMemoryTransport();
+    const client = await createMcpClient(transport);
+
+    const call = client.callTool("search", {});
+    transport.fail(lastRequest(transport).id!, -32602, "Unknown tool");
+
+    const error = await call.catch((error: Error) => error);
+    expect(error).toEqual(new Error("MCP error -32602: Unknown tool"));
+    expect(isMcpConnectionError(error)).toBe(false);
+  });
+
+  it("times out a request the server never answers", async () => {
+    const transport = createMemoryTransport();
+    const client = await createMcpClient(transport, { requestTimeoutMs: 50 });
+
+    const error = await client
+      .callTool("search", {})
+      .catch((error: Error) => error);
+
+    expect(error).toEqual(new Error("MCP tools/call timed out after 50ms"));
+    expect(isMcpConnectionError(error)).toBe(true);
+  });
+
+  it("rejects pending requests when the connection closes", async () => {
+    const transport = createMemoryTransport();
+    const client = await createMcpClient(transport);
+
+    const calls = [client.callTool("search", {}), client.listTools()];
+    transport.onclose?.();
+
+    for (const call of calls) {
+      await expect(call).rejects.toThrow("MCP connection closed");
+    }
+  });
+
+  it("follows tools/list pagination", async () => {
+    const transport = createMemoryTransport();
+    const client = await createMcpClient(transport);
+
+    const listed = client.listTools();
+    transport.reply(lastRequest(transport).id!, {
+      tools: [{ name: "first" }],
+      nextCursor: "page-2",
+    });
+    await vi.waitFor(() =>
+      expect(lastRequest(transport).params).toEqual({ cursor: "page-2" })
+    );
+    transport.reply(lastRequest(transport).id!, {
+      tools: [{ name: "second" }],
+    });
+
+    expect(await listed).toEqual([{ name: "first" }, { name: "second" }]);
+  });
+});
+
+describe("createStreamableHttpTransport", () => {
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    server?.closeAllConnections();
+    if (server) await new Promise((resolve) => server!.close(resolve));
+    server = null;
+  });
+
+  const readBody = async (request: IncomingMessage): Promise<Message> => {
+    let body = "";
+    for await (const chunk of request) body += chunk;
+    return JSON.parse(body);
+  };
+
+  it("reads SSE events split across chunks", async () => {
+    const sessionIds: (string | undefined)[] = [];
+    server = createServer(async (request, response) => {
+      const message = await readBody(request);
+      sessionIds.push(request.headers["mcp-session-id"] as string | undefined);
+      if (message.method === "initialize") {
+        response.writeHead(200, {
+          "content-type": "application/json",
+          "mcp-session-id": "session-1",
+        });
+        response.end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: message.id,
+            result: { protocolVersion: "2025-03-26" },
+          })
+        );
+        return;
+      }
+      if (message.id === undefined) {
+        response.writeHead(202).end();
+        return;
+      }
+
+      // A notification, then the reply, cut mid-payload and mid-boundary
+      const stream =
+        `event: message\r\ndata: {"jsonrpc":"2.0","method":"notifications/progress"}\r\n\r\n` +
+        `event: message\r\ndata: {"jsonrpc":"2.0","id":${message.id},` +
+        `"result":{"tools":[{"name":"twitter_search"}]}}\r\n\r\n`;
+      const cuts = [30, 75, 110, stream.length - 3];
+      response.writeHead(200, { "content-type": "text/event-stream" });
+      let start = 0;
+      for (const end of [...cuts, stream.length]) {
+        response.write(stream.slice(start, end));
+        start = end;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      response.end();
+    });
+    await new Promise<void>((resolve) => server!.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const client = await createMcpClient(
+      createStreamableHttpTransport({ url: `http://127.0.0.1:${port}/mcp` })
+    );
+
+    expect(await client.listTools()).toEqual([{ name: "twitter_search" }]);
+    // The session id from initialize accompanies every later request
+    expect(sessionIds).toEqual([undefined, "session-1", "session-1"]);
+  });
+});
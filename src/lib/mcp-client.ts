@@ -0,0 +1,356 @@
+// src/lib/mcp-client.ts
+import "server-only";
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+import { logger } from "./logger";
+
+// Minimal Model Context Protocol client: JSON-RPC 2.0 over stdio (newline-
+// delimited messages to a child process) or streamable HTTP (POSTs answered
+// with JSON or an SSE stream). Covers the lifecycle and tool calls we need:
+// initialize → notifications/initialized → tools/list / tools/call.
+
+const PROTOCOL_VERSION = "2025-03-26";
+const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+
+type JsonRpcId = number | string;
+
+interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: JsonRpcId; // Absent for notifications
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse;
+
+export interface McpTransport {
+  start(): Promise<void>;
+  send(message: JsonRpcRequest): Promise<void>;
+  close(): Promise<void>;
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: () => void;
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: {
+    type?: string;
+    properties?: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface McpToolResult {
+  content?: (
+    { type: "text"; text: string } | { type: string; [key: string]: unknown }
+  )[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+export interface McpClient {
+  serverInfo?: { name: string; version?: string };
+  listTools(): Promise<McpTool[]>;
+  callTool(name: string, args: Record<string, unknown>): Promise<McpToolResult>;
+  close(): Promise<void>;
+}
+
+// --- Transports ---
+
+/**
+ * Runs the server as a child process ("npx -y exa-mcp-server ...") and talks
+ * to it over stdin/stdout, one JSON message per line. The server's stderr is
+ * forwarded to our logs.
+ */
+export function createStdioTransport({
+  command,
+  args = [],
+  env,
+}: {
+  command: string;
+  args?: string[];
+  env?: Record<string, string | undefined>;
+}): McpTransport {
+  let child: ChildProcessWithoutNullStreams | null = null;
+  let buffered = "";
+
+  const transport: McpTransport = {
+    async start() {
+      child = spawn(command, args, {
+        env: { ...process.env, ...env },
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+      child.stdout.setEncoding("utf8");
+      child.stdout.on("data", (chunk: string) => {
+        buffered += chunk;
+        let newline: number;
+        while ((newline = buffered.indexOf("\n")) !== -1) {
+          const line = buffered.slice(0, newline).trim();
+          buffered = buffered.slice(newline + 1);
+          if (!line) continue;
+          try {
+            transport.onmessage?.(JSON.parse(line));
+          } catch {
+            logger.debug({ line }, "Ignoring non-JSON output from MCP server");
+          }
+        }
+      });
+      child.stderr.setEncoding("utf8");
+      child.stderr.on("data", (chunk: string) =>
+        logger.debug({ command, stderr: chunk.trim() }, "MCP server stderr")
+      );
+      child.on("close", (code) => {
+        logger.info({ command, code }, "MCP server process exited");
+        child = null;
+        transport.onclose?.();
+      });
+      // Unhandled, a failed process (or EPIPE from writing to a server that
+      // has gone away) would crash us. Either way the connection is lost, so
+      // fail the pending requests rather than leave them to time out.
+      const onError = (error: Error) => {
+        logger.error({ err: error, command }, "MCP server process error");
+        transport.onclose?.();
+      };
+      child.on("error", onError);
+      child.stdin.on("error", onError);
+
+      await new Promise<void>((resolve, reject) => {
+        child!.once("spawn", resolve);
+        child!.once("error", reject);
+      });
+    },
+    async send(message) {
+      if (!child) throw new Error("MCP stdio transport is not running");
+      child.stdin.write(`${JSON.stringify(message)}\n`);
+    },
+    async close() {
+      child?.stdin.end();
+      child?.kill();
+      child = null;
+    },
+  };
+  return transport;
+}
+
+// Splits an SSE body into the JSON payloads of its data: fields
+async function readSseMessages(
+  response: Response,
+  onMessage: (message: JsonRpcMessage) => void
+) {
+  const reader = response
+    .body!.pipeThrough(new TextDecoderStream())
+    .getReader();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (value) buffered += value;
+    let boundary: number;
+    while ((boundary = buffered.search(/\r?\n\r?\n/)) !== -1) {
+      const event = buffered.slice(0, boundary);
+      buffered = buffered.slice(boundary).replace(/^\r?\n\r?\n/, "");
+      const data = event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) onMessage(JSON.parse(data));
+    }
+    if (done) return;
+  }
+}
+
+/**
+ * MCP "streamable HTTP": every message is a POST to one endpoint. Responses
+ * come back as a JSON body or as an SSE stream, and the server may hand out
+ * an Mcp-Session-Id that has to accompany every later request.
+ */
+export function createStreamableHttpTransport({
+  url,
+  headers,
+}: {
+  url: string;
+  headers?: Record<string, string>;
+}): McpTransport {
+  let sessionId: string | undefined;
+
+  const transport: McpTransport = {
+    async start() {},
+    async send(message) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...headers,
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...(sessionId && { "Mcp-Session-Id": sessionId }),
+        },
+        body: JSON.stringify(message),
+      });
+      sessionId = response.headers.get("mcp-session-id") ?? sessionId;
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `MCP server returned ${response.status} for ${message.method}: ${errorText.slice(0, 300)}`
+        );
+      }
+      if (response.status === 202 || message.id === undefined) return;
+
+      const contentType = response.headers.get("content-type") ?? "";
+      if (contentType.includes("text/event-stream")) {
+        await readSseMessages(response, (m) => transport.onmessage?.(m));
+        return;
+      }
+      const body: JsonRpcMessage | JsonRpcMessage[] = await response.json();
+      for (const m of Array.isArray(body) ? body : [body]) {
+        transport.onmessage?.(m);
+      }
+    },
+    async close() {
+      if (!sessionId) return;
+      // Ending the session is a courtesy; servers also expire them
+      await fetch(url, {
+        method: "DELETE",
+        headers: { ...headers, "Mcp-Session-Id": sessionId },
+      }).catch(() => undefined);
+      sessionId = undefined;
+    },
+  };
+  return transport;
+}
+
+// --- Client ---
+
+/**
+ * An MCP error reply is the server answering over a working connection, so
+ * only other failures (timeouts, a closed or failed transport, an HTTP
+ * error) call for reconnecting.
+ */
+export const isMcpConnectionError = (error: unknown) =>
+  !(error instanceof Error && /^MCP error -?\d+:/.test(error.message));
+
+/**
+ * Starts the transport and performs the MCP initialize handshake. Requests
+ * are matched to responses by id and time out after `requestTimeoutMs`.
+ */
+export async function createMcpClient(
+  transport: McpTransport,
+  {
+    name = "verigrant",
+    version = "0.1.0",
+    requestTimeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+  }: { name?: string; version?: string; requestTimeoutMs?: number } = {}
+): Promise<McpClient> {
+  let nextId = 1;
+  const pending = new Map<
+    JsonRpcId,
+    { resolve: (result: unknown) => void; reject: (error: Error) => void }
+  >();
+
+  transport.onmessage = (message) => {
+    if (!("id" in message) || message.id === null || "method" in message) {
+      return; // Server notifications and requests aren't used here
+    }
+    const waiting = pending.get(message.id);
+    if (!waiting) return;
+    pending.delete(message.id);
+    if (message.error) {
+      waiting.reject(
+        new Error(`MCP error ${message.error.code}: ${message.error.message}`)
+      );
+    } else {
+      waiting.resolve(message.result);
+    }
+  };
+  transport.onclose = () => {
+    for (const waiting of pending.values()) {
+      waiting.reject(new Error("MCP connection closed"));
+    }
+    pending.clear();
+  };
+
+  const request = async <T>(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<T> => {
+    const id = nextId++;
+    const result = new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(
+          new Error(`MCP ${method} timed out after ${requestTimeoutMs}ms`)
+        );
+      }, requestTimeoutMs);
+      pending.set(id, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value as T);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+    });
+    try {
+      await transport.send({ jsonrpc: "2.0", id, method, params });
+    } catch (error) {
+      pending.get(id)?.reject(error as Error);
+    }
+    return result;
+  };
+
+  await transport.start();
+  let init: {
+    protocolVersion: string;
+    serverInfo?: { name: string; version?: string };
+  };
+  try {
+    init = await request("initialize", {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name, version },
+    });
+    await transport.send({
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+    });
+  } catch (error) {
+    await transport.close(); // Don't leave a spawned server behind
+    throw error;
+  }
+  logger.info(
+    { server: init.serverInfo, protocolVersion: init.protocolVersion },
+    "Connected to MCP server"
+  );
+
+  return {
+    serverInfo: init.serverInfo,
+    async listTools() {
+      const tools: McpTool[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await request<{ tools: McpTool[]; nextCursor?: string }>(
+          "tools/list",
+          cursor ? { cursor } : undefined
+        );
+        tools.push(...page.tools);
+        cursor = page.nextCursor;
+      } while (cursor);
+      return tools;
+    },
+    callTool: (toolName, args) =>
+      request<McpToolResult>("tools/call", {
+        name: toolName,
+        arguments: args,
+      }),
+    close: () => transport.close(),
+  };
+}
@@ -0,0 +1,183 @@
+// src/lib/parse-exa-profile.test.ts
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { parseExaUserString } from "./parse-exa-profile";
+
+// Raw Exa responses live in __fixtures__/exa, one file per quirk of the format
+const parseFixture = (name: string) =>
+  parseExaUserString(
+    readFileSync(new URL(`./__fixtures__/exa/${name}.txt`, import.meta.url), {
+      encoding: "utf8",
+    })
+  );
+
+describe("parseExaUserString", () => {
+  it("keeps a | inside tweet text as text", () => {
+    const result = parseFixture("pipe-in-text");
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([]);
+    expect(result.data).toMatchObject({
+      bio: "Building tools for grant reviewers",
+      profile_url: "https://x.com/ada",
+      name: "Ada",
+      followers_count: 1204,
+      statuses_count: 310,
+    });
+    expect(result.data?.tweets).toEqual([
+      {
+        text: "Pros | cons: shipping weekly beats shipping perfect",
+        created_at: "Tue Jun 03 09:12:00 +0000 2025",
+        favorite_count: 12,
+        quote_count: 0,
+        reply_count: 3,
+        retweet_count: 1,
+      },
+      {
+        text: "Rust | Go | Zig, pick one",
+        created_at: "Wed Jun 04 18:30:00 +0000 2025",
+        favorite_count: 4,
+        quote_count: 1,
+        reply_count: 0,
+        retweet_count: 0,
+        is_quote_status: true,
+      },
+    ]);
+  });
+
+  it("unquotes quoted values and text, including escaped quotes", () => {
+    const result = parseFixture("quoted-values");
+
+    expect(result.warnings).toEqual([]);
+    expect(result.data).toMatchObject({
+      name: "Lin | OSS",
+      location: "Berlin | Remote",
+      statuses_count: 42,
+    });
+    expect(
+      result.data?.tweets.map(({ text, created_at }) => ({
+        text,
+        created_at,
+      }))
+    ).toEqual([
+      {
+        text: "Ship it | then fix it",
+        created_at: "Thu Jun 05 08:00:00 +0000 2025",
+      },
+      {
+        text: 'She said "hello"',
+        created_at: "Fri Jun 06 08:00:00 +0000 2025",
+      },
+    ]);
+  });
+
+  it("joins tweet text that spans several lines", () => {
+    const result = parseFixture("multi-line");
+
+    expect(result.warnings).toEqual([]);
+    expect(result.data?.tweets.map((tweet) => tweet.text)).toEqual([
+      "1/ Quadratic funding works when\nthe matching pool is large enough\nand sybil resistance holds",
+      "Short one",
+    ]);
+    expect(result.data?.tweets[0].retweet_count).toBe(9);
+  });
+
+  it("ignores unknown fields with a warning, and known unmapped ones silently", () => {
+    const result = parseFixture("unknown-fields");
+
+    expect(result.data).toMatchObject({ name: "Mo", statuses_count: 9 });
+    expect(result.data?.tweets).toHaveLength(1);
+    expect(result.warnings).toEqual([
+      {
+        record: "profile",
+        field: "verified_type",
+        message: "Unknown field ignored",
+        value: "blue",
+      },
+      {
+        record: "tweet 1",
+        field: "view_count",
+        message: "Unknown field ignored",
+        value: "512",
+      },
+    ]);
+  });
+
+  it("reports each malformed value or tweet and keeps the rest", () => {
+    const result = parseFixture("malformed");
+
+    expect(result.success).toBe(true);
+    expect(result.data?.followers_count).toBeUndefined();
+    expect(result.data?.statuses_count).toBe(12);
+    expect(result.data?.tweets).toEqual([
+      {
+        text: "Counts gone wrong",
+        created_at: "Tue Jun 10 12:00:00 +0000 2025",
+        favorite_count: 0,
+        quote_count: 0,
+        reply_count: 0,
+        retweet_count: 0,
+      },
+      {
+        text: "Liked twice",
+        created_at: "Wed Jun 11 12:00:00 +0000 2025",
+        favorite_count: 3,
+        quote_count: 0,
+        reply_count: 0,
+        retweet_count: 0,
+      },
+    ]);
+    expect(result.warnings).toEqual([
+      {
+        record: "profile",
+        field: "followers_count",
+        message: "Expected a whole number",
+        value: "lots",
+      },
+      {
+        record: "tweet 1",
+        field: "created_at",
+        message: "Tweet has no created_at; skipped",
+        value: "No date on this one",
+      },
+      {
+        record: "tweet 2",
+        field: "favorite_count",
+        message: "Expected a whole number",
+        value: "2.5",
+      },
+      {
+        record: "tweet 2",
+        field: "is_quote_status",
+        message: "Expected True or False",
+        value: "maybe",
+      },
+      {
+        record: "tweet 4",
+        field: "text",
+        message: "Tweet has no text; skipped",
+        value: undefined,
+      },
+      {
+        record: "tweet 3",
+        field: "favorite_count",
+        message: "Field repeated; the last value was kept",
+        value: "3",
+      },
+      {
+        record: "tweet 5",
+        message: "Text without any fields at the end was ignored",
+        value: "Dangling text with no fields",
+      },
+    ]);
+  });
+
+  it("parses tweets without a profile block", () => {
+    const result = parseExaUserString(
+      "gm | created_at: Fri Jun 13 07:00:00 +0000 2025 | favorite_count: 1 | quote_count: 0 | reply_count: 0 | retweet_count: 0"
+    );
+
+    expect(result.data?.bio).toBeUndefined();
+    expect(result.data?.tweets.map((tweet) => tweet.text)).toEqual(["gm"]);
+  });
+});
@@ -43,154 +43,410 @@ export type XProfile = {
   location?: string;
 };
 
-// This parser is highly dependent on the exact string format from Exa.
-// It might need adjustments if Exa changes its output format.
-export const parseExaUserString = (
-  raw_string: string
-): { success: boolean; data?: XProfile; error?: unknown } => {
-  try {
-    const composed_object: XProfile = {
-      tweets: [],
-    };
-    const base_yml = raw_string;
-
-    // Attempt to split profile info from tweets. This is heuristic.
-    const profile_end_marker = "statuses_count:"; // Or another reliable marker
-    const profile_end_index = base_yml.indexOf(profile_end_marker);
-
-    let profile_yml = "";
-    let tweets_yml = base_yml;
-
-    if (profile_end_index !== -1) {
-      // Find the end of the line for statuses_count to include its value
-      const end_of_line_index = base_yml.indexOf("\n", profile_end_index);
-      profile_yml = base_yml
-        .substring(
-          0,
-          end_of_line_index !== -1 ? end_of_line_index : base_yml.length
-        )
-        .trim();
-      tweets_yml = base_yml
-        .substring(
-          end_of_line_index !== -1 ? end_of_line_index : base_yml.length
-        )
-        .replace("| location:", "")
-        .trim();
+export type ExaParseWarning = {
+  record: "profile" | `tweet ${number}`;
+  field?: string;
+  message: string;
+  value?: string;
+};
+
+// --- Exa's pipe-delimited format ---
+// Exa renders X profiles as a bio followed by "| key: value" fields, then one
+// record per tweet, e.g.
+//
+//   Bio text | profile_url: https://x.com/jack | name: jack | ... | statuses_count: 30
+//   Tweet text | created_at: Wed Jan 01 ... | favorite_count: 5 | ... | lang: en
+//
+// Some responses put the tweet text after the fields instead of before them.
+// Values may be quoted ("a | b"), tweet text may span lines and contain "|",
+// and fields we don't know about are tolerated.
+
+const PROFILE_ONLY_KEYS = new Set([
+  "profile_url",
+  "name",
+  "followers_count",
+  "favourites_count",
+  "friends_count",
+  "media_count",
+  "statuses_count",
+  "location",
+]);
+const TWEET_ONLY_KEYS = new Set([
+  "favorite_count",
+  "quote_count",
+  "reply_count",
+  "retweet_count",
+  "is_quote_status",
+  "lang",
+]);
+const NUMERIC_KEYS = new Set([
+  "followers_count",
+  "favourites_count",
+  "friends_count",
+  "media_count",
+  "statuses_count",
+  "favorite_count",
+  "quote_count",
+  "reply_count",
+  "retweet_count",
+]);
+const BOOLEAN_KEYS = new Set(["is_quote_status"]);
+// Known fields we read but don't map onto XProfile/Tweet
+const IGNORED_KEYS = new Set([
+  "favourites_count",
+  "friends_count",
+  "media_count",
+  "lang",
+]);
+const KNOWN_KEYS = new Set([
+  ...PROFILE_ONLY_KEYS,
+  ...TWEET_ONLY_KEYS,
+  "created_at",
+]);
+
+type ExaToken =
+  | { kind: "text"; value: string; onNewLine: boolean }
+  | { kind: "field"; key: string; value: string; onNewLine: boolean };
+
+interface ExaRecord {
+  text: string[];
+  fields: Map<string, string>;
+}
+
+// "| key:" where key is snake_case; whether it really is a field is decided
+// by isFieldSeparator
+const SEPARATOR = /\|[ \t]*([a-z][a-z0-9_]*)[ \t]*:/gi;
+
+/**
+ * A "| word:" inside tweet text ("pros | cons: ...") must stay text. Known
+ * keys and snake_case keys always count as fields; any other key only when it
+ * directly follows another field, i.e. inside a run of metadata.
+ */
+function isFieldSeparator(
+  key: string,
+  textBefore: string,
+  previous: ExaToken | undefined
+) {
+  const lowerKey = key.toLowerCase();
+  if (KNOWN_KEYS.has(lowerKey) || lowerKey.includes("_")) return true;
+  return previous?.kind === "field" && !textBefore.trim();
+}
+
+// Reads a "..." or '...' value starting at `start`; backslash and doubled
+// quotes escape the quote character. Returns undefined when unterminated.
+function readQuoted(input: string, start: number) {
+  const quote = input[start];
+  let value = "";
+  for (let i = start + 1; i < input.length; i++) {
+    const char = input[i];
+    if (char === "\\" && i + 1 < input.length) {
+      value += input[++i];
+    } else if (char === quote && input[i + 1] === quote) {
+      value += quote;
+      i++;
+    } else if (char === quote) {
+      return { value, end: i + 1 };
     } else {
-      // Fallback if marker isn't found, assume less structured data or primarily tweets
-      // This part might need more robust logic based on actual Exa output variations
+      value += char;
     }
+  }
+  return undefined;
+}
+
+const unquote = (text: string) => {
+  const trimmed = text.trim();
+  if (/^["']/.test(trimmed)) {
+    const quoted = readQuoted(trimmed, 0);
+    if (quoted && quoted.end === trimmed.length) return quoted.value;
+  }
+  return trimmed;
+};
 
-    const PROFILE_PATTERNS = {
-      bio: /^(.*?)(?=\| (?:profile_url:|name:|created_at:|followers_count:|favourites_count:|friends_count:|media_count:|statuses_count:|location:))/,
-      profile_url: /\| profile_url:\s*([^\s|]+)/,
-      name: /\| name:\s*([^|]+)/,
-      created_at: /\| created_at:\s*([^|]+)/,
-      followers_count: /\| followers_count:\s*(\d+)/,
-      statuses_count: /\| statuses_count:\s*(\d+)/,
-      location: /\| location:\s*([^|]+)/,
-    } as const;
-
-    const num_keys = [
-      "followers_count",
-      "favourites_count",
-      "friends_count",
-      "media_count",
-      "statuses_count",
-      "favorite_count",
-      "quote_count",
-      "reply_count",
-      "retweet_count",
-    ];
-
-    for (const [key, pattern] of Object.entries(PROFILE_PATTERNS)) {
-      const match = profile_yml?.match(pattern);
-      if (match && match[1]) {
-        Object.assign(composed_object, {
-          [key]: num_keys.includes(key)
-            ? parseInt(match[1].trim())
-            : match[1].trim().replace(/^["']|["']$/g, ""),
-        });
+/**
+ * Splits the raw string into free-text and field tokens. Unquoted values end
+ * at a line break or the next "| key:"; quoted values may contain both.
+ * A typed value followed by more words ("is_quote_status: False Some tweet")
+ * is split, the rest becoming text.
+ */
+function tokenizeExaString(input: string): ExaToken[] {
+  const tokens: ExaToken[] = [];
+  let pos = 0;
+  let pendingText = "";
+
+  // A token is "on a new line" when only whitespace with a line break (or
+  // the start of the input) separates it from the previous token
+  const startsLine = (gap: string) =>
+    tokens.length === 0 || /^[ \t]*\r?\n/.test(gap);
+  const flushText = () => {
+    if (pendingText.trim()) {
+      tokens.push({
+        kind: "text",
+        value: unquote(pendingText),
+        onNewLine: startsLine(pendingText),
+      });
+    }
+    pendingText = "";
+  };
+
+  while (pos < input.length) {
+    SEPARATOR.lastIndex = pos;
+    let match = SEPARATOR.exec(input);
+    while (
+      match &&
+      !isFieldSeparator(
+        match[1],
+        pendingText + input.slice(pos, match.index),
+        tokens[tokens.length - 1]
+      )
+    ) {
+      match = SEPARATOR.exec(input);
+    }
+    if (!match) {
+      pendingText += input.slice(pos);
+      break;
+    }
+
+    pendingText += input.slice(pos, match.index);
+    const onNewLine = !pendingText.trim() && startsLine(pendingText);
+    flushText();
+    const key = match[1].toLowerCase();
+
+    let valueStart = SEPARATOR.lastIndex;
+    while (input[valueStart] === " " || input[valueStart] === "\t") {
+      valueStart++;
+    }
+
+    let value: string;
+    const quoted = /["']/.test(input[valueStart] ?? "")
+      ? readQuoted(input, valueStart)
+      : undefined;
+    if (quoted) {
+      value = quoted.value;
+      pos = quoted.end;
+    } else {
+      SEPARATOR.lastIndex = valueStart;
+      const next = SEPARATOR.exec(input);
+      const lineEnd = input.indexOf("\n", valueStart);
+      const end = Math.min(
+        next ? next.index : input.length,
+        lineEnd === -1 ? input.length : lineEnd
+      );
+      value = input.slice(valueStart, end).trim();
+      pos = end;
+
+      const typed =
+        NUMERIC_KEYS.has(key) || BOOLEAN_KEYS.has(key)
+          ? value.match(/^(-?\d+|true|false)\s+(\S[\s\S]*)$/i)
+          : null;
+      if (typed) {
+        value = typed[1];
+        pendingText = typed[2];
       }
     }
-    // Split tweets based on a common delimiter, e.g., a pattern indicating start of a new tweet
-    // The original used `| lang: ...`, this might need adjustment
-    const tweet_delimiters = tweets_yml.split(/\| created_at:/).slice(1); // Assuming each tweet starts with | created_at:
-
-    const TWEET_PATTERNS = {
-      // created_at is used for splitting, so it's implicitly the start
-      favorite_count: /favorite_count:\s*(\d+)/,
-      quote_count: /quote_count:\s*(\d+)/,
-      reply_count: /reply_count:\s*(\d+)/,
-      retweet_count: /retweet_count:\s*(\d+)/,
-      is_quote_status: /is_quote_status:\s*(True|False)/,
-      // Text is often the remaining part after metadata
-    } as const;
-
-    for (const tweet_block of tweet_delimiters) {
-      const full_tweet_data_string = "| created_at:" + tweet_block; // Re-add the delimiter for parsing
-      const tweet_object: Partial<Tweet> = {};
-
-      const createdAtMatch = full_tweet_data_string.match(
-        /created_at:\s*([^|]+)/
+    tokens.push({ kind: "field", key, value, onNewLine });
+  }
+  flushText();
+  return tokens;
+}
+
+// Groups tokens into the profile record and tweet records
+function groupRecords(tokens: ExaToken[]) {
+  let index = 0;
+  let profile: ExaRecord | null = null;
+
+  // The profile is the leading run up to the first line break after a
+  // profile-only field, if there is any such field
+  const profileCandidate: ExaRecord = { text: [], fields: new Map() };
+  let sawProfileKey = false;
+  for (; index < tokens.length; index++) {
+    const token = tokens[index];
+    // A profile field on its own line ("| location: ...") still belongs to it
+    const continuesProfile =
+      token.kind === "field" && PROFILE_ONLY_KEYS.has(token.key);
+    if (sawProfileKey && token.onNewLine && !continuesProfile) break;
+    if (token.kind === "field" && TWEET_ONLY_KEYS.has(token.key)) break;
+    if (token.kind === "text") {
+      if (profileCandidate.fields.size) break; // Text after fields: a tweet
+      profileCandidate.text.push(token.value);
+    } else {
+      if (PROFILE_ONLY_KEYS.has(token.key)) sawProfileKey = true;
+      profileCandidate.fields.set(token.key, token.value);
+    }
+  }
+  if (sawProfileKey) {
+    profile = profileCandidate;
+  } else {
+    index = 0; // No profile block; everything is tweets
+  }
+
+  // Text before the first tweet field means text comes first in each record
+  const rest = tokens.slice(index);
+  const firstField = rest.findIndex((token) => token.kind === "field");
+  const textFirst = firstField > 0 || (firstField === -1 && rest.length > 0);
+
+  const tweets: ExaRecord[] = [];
+  let current: ExaRecord | null = null;
+  let pendingText: string[] = [];
+  const duplicates: { record: number; key: string; value: string }[] = [];
+
+  for (const token of rest) {
+    if (token.kind === "text") {
+      if (textFirst || !current) pendingText.push(token.value);
+      else current.text.push(token.value);
+      continue;
+    }
+    const startsRecord =
+      !current ||
+      (textFirst && pendingText.length > 0) ||
+      (token.key === "created_at" && current.fields.has("created_at"));
+    if (startsRecord) {
+      current = { text: pendingText, fields: new Map() };
+      pendingText = [];
+      tweets.push(current);
+    }
+    if (current!.fields.has(token.key)) {
+      duplicates.push({
+        record: tweets.length,
+        key: token.key,
+        value: token.value,
+      });
+    }
+    current!.fields.set(token.key, token.value);
+  }
+
+  return { profile, tweets, trailingText: pendingText, duplicates };
+}
+
+function readNumber(
+  record: ExaRecord,
+  key: string,
+  warn: (field: string, message: string, value?: string) => void
+): number | undefined {
+  const raw = record.fields.get(key);
+  if (raw === undefined) return undefined;
+  const value = Number(raw.replace(/,/g, ""));
+  if (!Number.isInteger(value)) {
+    warn(key, "Expected a whole number", raw);
+    return undefined;
+  }
+  return value;
+}
+
+function warnUnknownFields(
+  record: ExaRecord,
+  allowed: Set<string>,
+  warn: (field: string, message: string, value?: string) => void
+) {
+  for (const [key, value] of record.fields) {
+    if (allowed.has(key) || IGNORED_KEYS.has(key)) continue;
+    warn(key, "Unknown field ignored", value);
+  }
+}
+
+const PROFILE_FIELDS = new Set([...PROFILE_ONLY_KEYS, "created_at"]);
+const TWEET_FIELDS = new Set([...TWEET_ONLY_KEYS, "created_at"]);
+
+/**
+ * Parses Exa's pipe-delimited profile/tweet text into an XProfile. Problems
+ * with individual fields or tweets don't fail the parse; they are reported in
+ * `warnings` and the affected value (or tweet) is left out.
+ */
+export const parseExaUserString = (
+  raw_string: string
+): {
+  success: boolean;
+  data?: XProfile;
+  error?: unknown;
+  warnings: ExaParseWarning[];
+} => {
+  const warnings: ExaParseWarning[] = [];
+  try {
+    const { profile, tweets, trailingText, duplicates } = groupRecords(
+      tokenizeExaString(raw_string)
+    );
+    const composed_object: XProfile = { tweets: [] };
+
+    if (profile) {
+      const warn = (field: string, message: string, value?: string) =>
+        warnings.push({ record: "profile", field, message, value });
+      const bio = profile.text.join("\n").trim();
+      if (bio) composed_object.bio = bio;
+      for (const key of [
+        "profile_url",
+        "name",
+        "created_at",
+        "location",
+      ] as const) {
+        const value = profile.fields.get(key);
+        if (value) composed_object[key] = value;
+      }
+      composed_object.followers_count = readNumber(
+        profile,
+        "followers_count",
+        warn
       );
-      if (createdAtMatch && createdAtMatch[1])
-        tweet_object.created_at = createdAtMatch[1].trim();
-
-      for (const [key, pattern] of Object.entries(TWEET_PATTERNS)) {
-        const match = full_tweet_data_string.match(pattern);
-        if (match && match[1]) {
-          if (key === "is_quote_status") {
-            Object.assign(tweet_object, { [key]: match[1].trim() === "True" });
-          } else {
-            Object.assign(tweet_object, {
-              [key]: num_keys.includes(key)
-                ? parseInt(match[1].trim())
-                : match[1].trim().replace(/^["']|["']$/g, ""),
-            });
-          }
-        }
+      composed_object.statuses_count = readNumber(
+        profile,
+        "statuses_count",
+        warn
+      );
+      warnUnknownFields(profile, PROFILE_FIELDS, warn);
+    }
+
+    tweets.forEach((record, i) => {
+      const recordName = `tweet ${i + 1}` as const;
+      const warn = (field: string, message: string, value?: string) =>
+        warnings.push({ record: recordName, field, message, value });
+
+      const text = record.text.join("\n").trim();
+      const created_at = record.fields.get("created_at");
+      if (!text) {
+        warn("text", "Tweet has no text; skipped");
+        return;
+      }
+      if (!created_at) {
+        warn("created_at", "Tweet has no created_at; skipped", text);
+        return;
       }
 
-      // Extract tweet text: assume it's before the first metadata field or after all recognized fields.
-      // This is the trickiest part and highly dependent on Exa's format.
-      // A common approach: text is what's left after removing known patterns.
-      // Or, if text is consistently at the start before `| created_at:`, handle that.
-      // For this example, let's assume text is the content before `| created_at:` if tweets_yml was split differently,
-      // or it's extracted by removing known metadata fields from `full_tweet_data_string`.
-      // Let's try to find text as what's before the first `| field:`
-      const textMatch = full_tweet_data_string.match(/^([^|]+)/);
-      if (textMatch && textMatch[1] && textMatch[1].trim().length > 0) {
-        tweet_object.text = textMatch[1].trim();
-      } else {
-        // Fallback or more complex extraction for text
-        // e.g. text is after is_quote_status: and before | lang:
-        const textAfterMetaMatch = full_tweet_data_string.match(
-          /is_quote_status:\s*(?:True|False)\s*([^|]+)/
-        );
-        if (textAfterMetaMatch && textAfterMetaMatch[1]) {
-          tweet_object.text = textAfterMetaMatch[1].trim();
+      const tweet: Tweet = {
+        text,
+        created_at,
+        favorite_count: readNumber(record, "favorite_count", warn) ?? 0,
+        quote_count: readNumber(record, "quote_count", warn) ?? 0,
+        reply_count: readNumber(record, "reply_count", warn) ?? 0,
+        retweet_count: readNumber(record, "retweet_count", warn) ?? 0,
+      };
+      const isQuote = record.fields.get("is_quote_status");
+      if (isQuote !== undefined) {
+        if (/^(true|false)$/i.test(isQuote)) {
+          tweet.is_quote_status = isQuote.toLowerCase() === "true";
         } else {
-          tweet_object.text = "Could not parse tweet text"; // Placeholder
+          warn("is_quote_status", "Expected True or False", isQuote);
         }
       }
+      warnUnknownFields(record, TWEET_FIELDS, warn);
+      composed_object.tweets.push(tweet);
+    });
 
-      if (tweet_object.text && tweet_object.created_at) {
-        // Ensure essential fields are present
-        composed_object.tweets.push(tweet_object as Tweet);
-      }
+    for (const { record, key, value } of duplicates) {
+      warnings.push({
+        record: `tweet ${record}`,
+        field: key,
+        message: "Field repeated; the last value was kept",
+        value,
+      });
+    }
+    if (trailingText.length) {
+      warnings.push({
+        record: `tweet ${tweets.length + 1}`,
+        message: "Text without any fields at the end was ignored",
+        value: trailingText.join("\n").slice(0, 200),
+      });
     }
 
-    composed_object.tweets = composed_object.tweets.filter(
-      (tweet) =>
-        tweet.text &&
-        tweet.text.length > 0 &&
-        tweet.text !== "Could not parse tweet text"
-    );
-
-    return { success: true, data: composed_object };
+    return { success: true, data: composed_object, warnings };
   } catch (error) {
-    console.error("Error in parseExaUserString:", error);
-    return { success: false, error: error };
+    return { success: false, error: error, warnings };
   }
 };
@@ -1,6 +1,7 @@
 // src/lib/persona-utils.ts
 import { ethers } from "ethers";
 import { type Placement } from "@/app/types";
+import { getChartFramework, getTraitName } from "./chart-frameworks";
 
 // --- UPDATED ABI FOR VIEM/WAGMI (The full JSON format) ---
 // We now define both functions our app needs.
@@ -73,28 +74,22 @@ export function processPlacementsForContract(
   );
   const avgLawfulChaotic = Math.round(totalLawfulChaotic / placements.length);
   const avgGoodEvil = Math.round(totalGoodEvil / placements.length);
+  // AI placements carry the hash of their archived source material, so the
+  // committed reportHash also pins down the evidence behind each score
   const placementsJson = JSON.stringify(
     placements.map((p) => ({
       username: p.username,
       position: p.position,
       isAiPlaced: p.isAiPlaced,
+      sourceHash: p.analysis?.sourceHash,
     }))
   );
   const reportHash = ethers.keccak256(ethers.toUtf8Bytes(placementsJson));
-  const getTrait = (lc: number, ge: number): string => {
-    const lcThreshold = 33;
-    const geThreshold = 33;
-    const lawfulAxis =
-      lc <= -lcThreshold ? "Lawful" : lc >= lcThreshold ? "Chaotic" : "Neutral";
-    const goodAxis =
-      ge <= -geThreshold ? "Good" : ge >= geThreshold ? "Evil" : "Neutral";
-    if (lawfulAxis === "Neutral" && goodAxis === "Neutral")
-      return "True Neutral";
-    if (lawfulAxis === "Neutral") return `${goodAxis} Neutral`;
-    if (goodAxis === "Neutral") return `${lawfulAxis} Neutral`;
-    return `${lawfulAxis} ${goodAxis}`;
-  };
-  const primaryTrait = getTrait(avgLawfulChaotic, avgGoodEvil);
+  // A chart uses one framework, so any AI-scored placement tells us which
+  const framework = getChartFramework(
+    placements.find((p) => p.analysis?.framework)?.analysis?.framework
+  );
+  const primaryTrait = getTraitName(framework, avgLawfulChaotic, avgGoodEvil);
 
   return {
     lawfulChaotic: Math.max(-128, Math.min(127, avgLawfulChaotic)),
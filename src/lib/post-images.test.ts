@@ -0,0 +1,145 @@
+// src/lib/post-images.test.ts
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { generateText } from "ai";
+import sharp from "sharp";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { resolveModel } from "./llm-provider";
+import { loadPostImages, withImageParts } from "./post-images";
+import { publicFetch } from "./public-fetch";
+
+// Image hosts are stood in for by a mocked publicFetch serving a generated PNG
+vi.mock("./public-fetch", () => ({ publicFetch: vi.fn() }));
+
+let fixtureDir: string;
+let png: Buffer;
+
+beforeAll(async () => {
+  fixtureDir = mkdtempSync(path.join(tmpdir(), "image-fixtures-"));
+  vi.stubEnv("FIXTURE_DIR", fixtureDir);
+  png = await sharp({
+    create: {
+      width: 1600,
+      height: 900,
+      channels: 3,
+      background: { r: 200, g: 40, b: 90 },
+    },
+  })
+    .png()
+    .toBuffer();
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(fixtureDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  vi.mocked(publicFetch).mockReset();
+});
+
+const posts = [
+  {
+    id: "1",
+    images: [{ url: "https://cdn.example.com/meme.png", alt: "A meme" }],
+  },
+];
+
+const servePng = () =>
+  vi
+    .mocked(publicFetch)
+    .mockImplementation(
+      async () =>
+        new Response(png, { headers: { "content-type": "image/png" } }) as never
+    );
+
+const readFixtures = (namespace: string) =>
+  readdirSync(path.join(fixtureDir, namespace)).map((file) =>
+    readFileSync(path.join(fixtureDir, namespace, file), "utf8")
+  );
+
+describe("loadPostImages", () => {
+  it("downscales images to JPEG", async () => {
+    servePng();
+
+    const [image] = await loadPostImages(posts, 6);
+    const { format, width, height } = await sharp(image.data).metadata();
+
+    expect(image).toMatchObject({ postId: "1", alt: "A meme" });
+    expect({ format, width, height }).toEqual({
+      format: "jpeg",
+      width: 768,
+      height: 432,
+    });
+  });
+
+  it("stops reading an image body once it passes the size cap", async () => {
+    // 1 MB chunks without end or Content-Length
+    let chunksRead = 0;
+    const body = new ReadableStream({
+      pull(controller) {
+        chunksRead++;
+        controller.enqueue(new Uint8Array(1024 * 1024));
+      },
+    });
+    vi.mocked(publicFetch).mockResolvedValue(
+      new Response(body, { headers: { "content-type": "image/png" } }) as never
+    );
+
+    const loaded = await loadPostImages(
+      [{ id: "2", images: [{ url: "https://cdn.example.com/endless.png" }] }],
+      6
+    );
+
+    expect(loaded).toEqual([]);
+    expect(chunksRead).toBeLessThan(12);
+  });
+
+  it("replays recorded images without downloading them", async () => {
+    servePng();
+    vi.stubEnv("FIXTURE_MODE", "record");
+    const recorded = await loadPostImages(posts, 6);
+
+    vi.mocked(publicFetch).mockRejectedValue(new Error("Network access"));
+    vi.stubEnv("FIXTURE_MODE", "replay");
+    const replayed = await loadPostImages(posts, 6);
+
+    expect(replayed).toHaveLength(1);
+    expect(replayed[0].data.equals(recorded[0].data)).toBe(true);
+    expect(publicFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("keys llm fixtures on image digests rather than the bytes", async () => {
+    servePng();
+    vi.stubEnv("FIXTURE_MODE", "record");
+    const images = await loadPostImages(posts, 6);
+    const messages = withImageParts(
+      [{ role: "user", content: "Describe the account." }],
+      images
+    );
+
+    const recorded = await generateText({
+      model: resolveModel("mock").model,
+      messages,
+    });
+    vi.stubEnv("FIXTURE_MODE", "replay");
+    const replayed = await generateText({
+      model: resolveModel("mock").model,
+      messages,
+    });
+
+    const [llmFixture] = readFixtures("llm");
+    expect(llmFixture).toMatch(/"image": "sha256:[0-9a-f]{64}"/);
+    expect(llmFixture.length).toBeLessThan(images[0].data.length);
+    expect(replayed.text).toBe(recorded.text);
+  });
+});
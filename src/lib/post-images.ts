@@ -0,0 +1,163 @@
+// src/lib/post-images.ts
+import "server-only";
+import sharp from "sharp";
+import type { CoreMessage, ImagePart, TextPart } from "ai";
+import { logger } from "./logger";
+import { withFixture } from "./fixtures";
+import { publicFetch } from "./public-fetch";
+import type { ResolvedModel } from "./llm-provider";
+import type { SocialPostImage } from "./social-data-source";
+
+// Photos attached to posts are sent to vision-capable models as image parts,
+// so accounts that mostly post memes and screenshots still get scored on them.
+//   ANALYSIS_MAX_IMAGES  images per analysis (default 6, 0 turns images off)
+//   LLM_VISION           "true"/"false" overrides whether the model takes images
+//                        (default: only Gemini models do)
+
+const DEFAULT_MAX_IMAGES = 6;
+const DOWNLOAD_TIMEOUT_MS = 10_000;
+const MAX_DOWNLOAD_BYTES = 8 * 1024 * 1024; // 8 MB; larger files are skipped
+// Longest side after downscaling; plenty for reading memes and screenshots
+const MAX_IMAGE_DIMENSION = 768;
+const JPEG_QUALITY = 70;
+
+export interface LoadedPostImage {
+  postId: string; // The <post id> the image belongs to
+  url: string;
+  alt?: string;
+  data: Buffer; // Downscaled JPEG
+}
+
+export const getImageBudget = () => {
+  const value = Number(process.env.ANALYSIS_MAX_IMAGES || DEFAULT_MAX_IMAGES);
+  return Number.isNaN(value) ? DEFAULT_MAX_IMAGES : Math.max(0, value);
+};
+
+export function supportsImageInput(model: ResolvedModel): boolean {
+  if (process.env.LLM_VISION === "true") return true;
+  if (process.env.LLM_VISION === "false") return false;
+  return model.provider === "gemini";
+}
+
+// Reads the body a chunk at a time and stops once it passes `maxBytes`, so a
+// server that sends no Content-Length (or a false one) can't fill memory
+async function readCappedBody(
+  response: Awaited<ReturnType<typeof publicFetch>>,
+  maxBytes: number
+): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks, length);
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new Error("Image is too large to download");
+    }
+    chunks.push(value);
+  }
+}
+
+// Image URLs come from post data, so they're fetched like any untrusted URL
+async function downloadAndDownscale(url: string): Promise<Buffer> {
+  const response = await publicFetch(url, {
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Image download failed: ${response.status}`);
+  }
+  if (!response.headers.get("content-type")?.startsWith("image/")) {
+    throw new Error("Image URL did not return an image");
+  }
+  if (Number(response.headers.get("content-length")) > MAX_DOWNLOAD_BYTES) {
+    throw new Error("Image is too large to download");
+  }
+  const original = await readCappedBody(response, MAX_DOWNLOAD_BYTES);
+  return sharp(original)
+    .rotate() // Honour EXIF orientation before it's stripped
+    .resize(MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, {
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .jpeg({ quality: JPEG_QUALITY })
+    .toBuffer();
+}
+
+/**
+ * Downloads up to `budget` images, taking posts in the order given. Selected
+ * posts are in timeline order (newest first), so when there are more images
+ * than the budget, the most recent posts' images are the ones sent.
+ * Images that fail to download or decode are logged and left out.
+ */
+export async function loadPostImages(
+  posts: { id: string; images?: SocialPostImage[] }[],
+  budget: number
+): Promise<LoadedPostImage[]> {
+  const wanted = posts
+    .flatMap((post) =>
+      (post.images ?? []).map((image) => ({ postId: post.id, ...image }))
+    )
+    .slice(0, budget);
+  if (!wanted.length) return [];
+
+  // Recorded as the downscaled JPEG, so a replay sends the model the exact
+  // bytes it saw when recording
+  const settled = await Promise.allSettled(
+    wanted.map(async (image) => {
+      const base64 = await withFixture("images", { url: image.url }, async () =>
+        (await downloadAndDownscale(image.url)).toString("base64")
+      );
+      return { ...image, data: Buffer.from(base64, "base64") };
+    })
+  );
+  const loaded = settled.flatMap((outcome, index) => {
+    if (outcome.status === "fulfilled") return [outcome.value];
+    logger.warn(
+      { err: outcome.reason, url: wanted[index].url },
+      "Skipping post image that could not be loaded"
+    );
+    return [];
+  });
+  logger.info(
+    { requested: wanted.length, loaded: loaded.length },
+    "Loaded post images for analysis"
+  );
+  return loaded;
+}
+
+/**
+ * Appends the images to the final user message, each preceded by a caption
+ * naming its post so the model can tie it back to the <post> block.
+ */
+export function withImageParts(
+  messages: CoreMessage[],
+  images: LoadedPostImage[]
+): CoreMessage[] {
+  const last = messages[messages.length - 1];
+  if (
+    !images.length ||
+    last?.role !== "user" ||
+    typeof last.content !== "string"
+  ) {
+    return messages;
+  }
+
+  const parts: (TextPart | ImagePart)[] = [
+    { type: "text", text: last.content },
+  ];
+  for (const image of images) {
+    parts.push(
+      {
+        type: "text",
+        text: `Image attached to post ${image.postId}${
+          image.alt ? ` (alt text: ${image.alt})` : ""
+        }:`,
+      },
+      { type: "image", image: image.data, mimeType: "image/jpeg" }
+    );
+  }
+  return [...messages.slice(0, -1), { role: "user", content: parts }];
+}
@@ -0,0 +1,220 @@
+// src/lib/prompt-registry.ts
+import "server-only";
+import { createHash } from "crypto";
+import { dedent } from "ts-dedent";
+import { logger } from "./logger";
+
+// Templates use {{variable}} placeholders, filled in by renderPrompt()
+export interface PromptTemplate {
+  name: string;
+  version: string;
+  system: string;
+  user: string;
+}
+
+// Identifies exactly which template text produced a result
+export interface PromptRef {
+  name: string;
+  version: string;
+  hash: string;
+}
+
+// Versions are listed oldest first; the last entry is the default.
+// Never edit a published version in place - add a new one so results stay comparable.
+const PROMPT_TEMPLATES = {
+  "alignment-analysis": [
+    {
+      name: "alignment-analysis",
+      version: "v1",
+      system: dedent`
+        You are an expert D&D alignment analyst. Analyze the provided Twitter user profile and their recent tweets to determine their alignment on a D&D-style chart.
+        ...
+      `.trim(),
+      user: dedent`
+        Username: @{{username}}
+
+        <user_profile>
+        {{profile}}
+        </user_profile>
+
+        <user_tweets limit="top_20_recent">
+        {{tweets}}
+        </user_tweets>
+
+        Please provide your analysis.
+      `.trim(),
+    },
+    {
+      name: "alignment-analysis",
+      version: "v2",
+      system: dedent`
+        You are an expert D&D alignment analyst. Analyze the provided Twitter user profile and their recent tweets to determine their alignment on a D&D-style chart.
+        ...
+      `.trim(),
+      // The tweet window is now configurable, so describe the actual selection
+      user: dedent`
+        Username: @{{username}}
+
+        <user_profile>
+        {{profile}}
+        </user_profile>
+
+        <user_tweets selection="{{tweetWindow}}">
+        {{tweets}}
+        </user_tweets>
+
+        Please provide your analysis.
+      `.trim(),
+    },
+    {
+      name: "alignment-analysis",
+      version: "v3",
+      // Framework-agnostic: the chart and its axes are filled in per analysis
+      system: dedent`
+        You are {{analystRole}}. Analyze the provided Twitter user profile and their recent tweets to determine their position on {{chartDescription}}.
+
+        Score each axis as follows:
+        {{axes}}
+        ...
+      `.trim(),
+      user: dedent`
+        Username: @{{username}}
+
+        <user_profile>
+        {{profile}}
+        </user_profile>
+
+        <user_tweets selection="{{tweetWindow}}">
+        {{tweets}}
+        </user_tweets>
+
+        Please provide your analysis.
+      `.trim(),
+    },
+    {
+      name: "alignment-analysis",
+      version: "v4",
+      // Accounts can come from platforms other than X
+      system: dedent`
+        You are {{analystRole}}. Analyze the provided {{platform}} user profile and their recent posts to determine their position on {{chartDescription}}.
+
+        Score each axis as follows:
+        {{axes}}
+        ...
+      `.trim(),
+      user: dedent`
+        Username: @{{username}}
+
+        <user_profile>
+        {{profile}}
+        </user_profile>
+
+        <user_tweets selection="{{tweetWindow}}">
+        {{tweets}}
+        </user_tweets>
+
+        Please provide your analysis.
+      `.trim(),
+    },
+    {
+      name: "alignment-analysis",
+      version: "v5",
+      // Posts can carry the post they quote or reply to as nested context
+      system: dedent`
+        You are {{analystRole}}. Analyze the provided {{platform}} user profile and their recent posts to determine their position on {{chartDescription}}.
+
+        A post may contain <quoted> or <in_reply_to> elements holding the post it quotes or answers. They are context only: they may be written by someone else, so judge the user by what they chose to say about them, and cite only the user's own posts as evidence.
+
+        Score each axis as follows:
+        {{axes}}
+        ...
+      `.trim(),
+      user: dedent`
+        Username: @{{username}}
+
+        <user_profile>
+        {{profile}}
+        </user_profile>
+
+        <user_tweets selection="{{tweetWindow}}">
+        {{tweets}}
+        </user_tweets>
+
+        Please provide your analysis.
+      `.trim(),
+    },
+  ],
+} satisfies Record<string, PromptTemplate[]>;
+
+export type PromptName = keyof typeof PROMPT_TEMPLATES;
+
+// e.g. PROMPT_VERSION_ALIGNMENT_ANALYSIS=v1
+const versionEnvVar = (name: PromptName) =>
+  `PROMPT_VERSION_${name.toUpperCase().replace(/-/g, "_")}`;
+
+/**
+ * Looks up a prompt template. The version comes from the argument, then the
+ * PROMPT_VERSION_<NAME> environment variable, then defaults to the latest.
+ */
+export function getPromptTemplate(
+  name: PromptName,
+  version?: string
+): PromptTemplate {
+  const versions: PromptTemplate[] = PROMPT_TEMPLATES[name];
+  const pinnedVersion = version || process.env[versionEnvVar(name)];
+
+  if (!pinnedVersion) return versions[versions.length - 1];
+
+  const template = versions.find((t) => t.version === pinnedVersion);
+  if (!template) {
+    logger.error(
+      {
+        name,
+        version: pinnedVersion,
+        available: versions.map((t) => t.version),
+      },
+      "Unknown prompt template version requested."
+    );
+    throw new Error(`Unknown prompt version ${name}@${pinnedVersion}`);
+  }
+  return template;
+}
+
+// Rendering is pure substitution, so hashing the template text is equivalent
+// to hashing the rendered prompt minus the per-user variables.
+export function getPromptRef(template: PromptTemplate): PromptRef {
+  const hash = createHash("sha256")
+    .update(
+      JSON.stringify([
+        template.name,
+        template.version,
+        template.system,
+        template.user,
+      ])
+    )
+    .digest("hex")
+    .slice(0, 12);
+
+  return { name: template.name, version: template.version, hash };
+}
+
+// Short form for cache keys and logs: name@version#hash
+export const formatPromptRef = (ref: PromptRef) =>
+  `${ref.name}@${ref.version}#${ref.hash}`;
+
+export function renderPrompt(
+  template: PromptTemplate,
+  variables: Record<string, string>
+): { system: string; user: string } {
+  const fill = (text: string) =>
+    text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+      if (!(key in variables)) {
+        throw new Error(
+          `Missing variable "${key}" for prompt ${template.name}@${template.version}`
+        );
+      }
+      return variables[key];
+    });
+
+  return { system: fill(template.system), user: fill(template.user) };
+}
@@ -0,0 +1,80 @@
+// src/lib/public-fetch.test.ts
+import { describe, expect, it, vi } from "vitest";
+import { assertPublicUrl, isPublicAddress, publicFetch } from "./public-fetch";
+
+// Every name resolves to loopback, as with a hostile or rebinding DNS record
+vi.mock("dns", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("dns")>()),
+  lookup: (
+    _hostname: string,
+    _options: unknown,
+    callback: (error: null, addresses: object[]) => void
+  ) => callback(null, [{ address: "127.0.0.1", family: 4 }]),
+}));
+
+describe("isPublicAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.20.0.1",
+    "192.168.1.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:10.0.0.1",
+    "not-an-ip",
+  ])("rejects %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(["1.1.1.1", "93.184.216.34", "2606:4700:4700::1111"])(
+    "accepts %s",
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  );
+});
+
+describe("assertPublicUrl", () => {
+  it("accepts https URLs on public-looking hostnames", () => {
+    expect(
+      assertPublicUrl("https://mastodon.social/.well-known/webfinger").host
+    ).toBe("mastodon.social");
+  });
+
+  it.each([
+    "http://mastodon.social/",
+    "file:///etc/passwd",
+    "https://169.254.169.254/latest/meta-data/",
+    "https://[::1]/",
+    "https://localhost/",
+    "https://localhost./",
+    "https://intranet/",
+    "https://wiki.internal/",
+    "https://printer.local/",
+  ])("refuses %s", (url) => {
+    expect(() => assertPublicUrl(url)).toThrow(/Refusing/);
+  });
+});
+
+describe("publicFetch", () => {
+  it("refuses private URLs before making a request", async () => {
+    await expect(publicFetch("https://10.0.0.1/")).rejects.toThrow(
+      /Refusing to fetch private host/
+    );
+  });
+
+  it("refuses a public name that resolves to a private address", async () => {
+    const failure = await publicFetch("https://rebind.example.com/").catch(
+      (error: Error) => error
+    );
+
+    expect(failure).toBeInstanceOf(Error);
+    expect((failure as Error).cause).toMatchObject({
+      message: expect.stringMatching(/resolves to a private address/),
+    });
+  });
+});
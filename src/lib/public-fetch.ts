@@ -0,0 +1,142 @@
+// src/lib/public-fetch.ts
+import "server-only";
+import { lookup, type LookupAddress, type LookupOneOptions } from "dns";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { Agent, fetch as undiciFetch, type RequestInit } from "undici";
+
+// For URLs that come from users or remote servers (fediverse domains,
+// ActivityPub links, post image URLs). Without a guard, anyone could make the
+// server request internal addresses such as cloud metadata endpoints.
+// publicFetch only speaks https to named hosts, checks every address a host
+// resolves to when connecting (so DNS can't point it inward either), and
+// re-checks each redirect.
+
+const MAX_REDIRECTS = 5;
+
+// Hostnames that only mean something inside a private network
+const PRIVATE_HOST_SUFFIXES = [
+  ".localhost",
+  ".local",
+  ".internal",
+  ".intranet",
+  ".lan",
+  ".home.arpa",
+];
+
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, incl. cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+  const family = isIP(address);
+  if (!family) return false;
+  return !privateAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Parses `url` and throws unless it's https to a hostname that isn't
+ * obviously internal. IP literals are refused outright: public servers are
+ * addressed by name, and a literal skips the connect-time DNS check.
+ */
+export function assertPublicUrl(url: string | URL): URL {
+  const parsed = new URL(url);
+  // Bracketed IPv6 and a trailing root dot ("localhost.") don't hide the host
+  const hostname = parsed.hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+  if (parsed.protocol !== "https:") {
+    throw new Error(`Refusing to fetch non-https URL ${parsed.origin}`);
+  }
+  if (
+    isIP(hostname) ||
+    !hostname.includes(".") ||
+    PRIVATE_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+  ) {
+    throw new Error(`Refusing to fetch private host ${hostname}`);
+  }
+  return parsed;
+}
+
+// dns.lookup, failing the connection if the host resolves to any private address
+const publicLookup = ((
+  hostname: string,
+  options: LookupOneOptions & { all?: boolean },
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number
+  ) => void
+) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked || !addresses.length) {
+      return callback(
+        new Error(
+          `Refusing to connect to ${hostname}: it resolves to a private address`
+        ),
+        ""
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+let publicAgent: Agent | null = null;
+
+const getPublicAgent = () =>
+  (publicAgent ??= new Agent({ connect: { lookup: publicLookup } }));
+
+/**
+ * fetch() for untrusted URLs; see the top of this file. Redirects are
+ * followed here rather than by fetch so each hop is checked.
+ */
+export async function publicFetch(
+  url: string | URL,
+  init: Omit<RequestInit, "redirect" | "dispatcher"> = {}
+) {
+  let target = assertPublicUrl(url);
+  for (let redirects = 0; ; redirects++) {
+    const response = await undiciFetch(target, {
+      ...init,
+      redirect: "manual",
+      dispatcher: getPublicAgent(),
+    });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects fetching ${target.origin}`);
+    }
+    await response.body?.cancel();
+    target = assertPublicUrl(new URL(location, target));
+  }
+}
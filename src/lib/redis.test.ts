@@ -0,0 +1,51 @@
+// src/lib/redis.test.ts
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getCacheStore, takeRateLimit } from "./redis";
+
+beforeAll(() => {
+  vi.stubEnv("CACHE_STORE", "memory");
+  vi.useFakeTimers();
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("takeRateLimit", () => {
+  it("allows `limit` calls per window with one store call each", async () => {
+    const increment = vi.spyOn(getCacheStore(), "increment");
+
+    const results = [];
+    for (let call = 0; call < 5; call++) {
+      results.push(await takeRateLimit("client-a", 3, 60));
+    }
+
+    expect(results).toEqual([true, true, true, false, false]);
+    expect(increment).toHaveBeenCalledTimes(5);
+  });
+
+  it("counts each key separately", async () => {
+    expect(await takeRateLimit("client-b", 1, 60)).toBe(true);
+    expect(await takeRateLimit("client-c", 1, 60)).toBe(true);
+    expect(await takeRateLimit("client-b", 1, 60)).toBe(false);
+  });
+
+  it("starts a fresh count in the next window", async () => {
+    expect(await takeRateLimit("client-d", 1, 60)).toBe(true);
+    expect(await takeRateLimit("client-d", 1, 60)).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(await takeRateLimit("client-d", 1, 60)).toBe(true);
+  });
+
+  it("fails open when the store errors", async () => {
+    vi.spyOn(getCacheStore(), "increment").mockRejectedValue(
+      new Error("Store unreachable")
+    );
+
+    expect(await takeRateLimit("client-e", 1, 60)).toBe(true);
+    expect(await takeRateLimit("client-e", 1, 60)).toBe(true);
+  });
+});
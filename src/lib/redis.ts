@@ -1,32 +1,28 @@
 // src/lib/redis.ts
-import { Redis } from "@upstash/redis";
+import { randomUUID } from "crypto";
+import { createCacheStore, type CacheStore } from "./cache-store";
 import { logger } from "./logger"; // Adjust path
 
-let redisClient: Redis | null = null;
+// The configured backend (Upstash, Redis, file or memory), see cache-store.ts
+let cacheStore: CacheStore | null = null;
 
-export function getRedisClient(): Redis {
-  if (!redisClient) {
-    if (!process.env.KV_REST_API_URL || !process.env.KV_REST_API_TOKEN) {
-      logger.error(
-        "Redis KV_REST_API_URL or KV_REST_API_TOKEN environment variables are not set."
-      );
-      throw new Error("Redis configuration missing.");
-    }
-    redisClient = new Redis({
-      url: process.env.KV_REST_API_URL,
-      token: process.env.KV_REST_API_TOKEN,
-    });
+export function getCacheStore(): CacheStore {
+  if (!cacheStore) {
+    cacheStore = createCacheStore();
+    logger.info({ store: cacheStore.name }, "Cache store initialized");
   }
-  return redisClient;
+  return cacheStore;
 }
 
 export async function getCachedData<T>(key: string): Promise<T | null> {
   try {
-    const client = getRedisClient();
-    const data = await client.get<T>(key); // Specify type for .get()
-    return data; // .get() already returns T | null
+    const store = getCacheStore();
+    return await store.get<T>(key);
   } catch (error) {
-    logger.warn({ err: error, key }, "[upstash] Redis cache get error");
+    logger.warn(
+      { err: error, key, store: cacheStore?.name },
+      "Cache get error"
+    );
     return null;
   }
 }
@@ -38,9 +34,107 @@ export async function setCachedData(
 ): Promise<void> {
   // 2 weeks TTL
   try {
-    const client = getRedisClient();
-    await client.set(key, data, { ex: ttlSeconds });
+    const store = getCacheStore();
+    await store.set(key, data, ttlSeconds);
+  } catch (error) {
+    logger.warn(
+      { err: error, key, store: cacheStore?.name },
+      "Cache set error"
+    );
+  }
+}
+
+export interface CacheLock {
+  acquired: boolean;
+  release(): Promise<void>; // No-op unless acquired
+  // Resets the TTL; false once the lock has expired or been taken over
+  extend(): Promise<boolean>;
+}
+
+/**
+ * Takes `key` as a lock for up to `ttlSeconds`; the TTL frees it if the
+ * holder dies. Release only deletes the lock while it still holds our token,
+ * so a holder that overran its TTL can't free someone else's lock; extend
+ * (for holders that run long) likewise only renews our own. When the
+ * store can't be reached the caller is told it holds the lock: a cache outage
+ * costs duplicate work, never a stuck request.
+ */
+export async function acquireLock(
+  key: string,
+  ttlSeconds: number
+): Promise<CacheLock> {
+  const token = randomUUID();
+  try {
+    const store = getCacheStore();
+    if (!(await store.add(key, token, ttlSeconds))) {
+      return {
+        acquired: false,
+        release: async () => {},
+        extend: async () => false,
+      };
+    }
+    return {
+      acquired: true,
+      async release() {
+        try {
+          await store.deleteIfEquals(key, token);
+        } catch (error) {
+          logger.warn(
+            { err: error, key, store: store.name },
+            "Cache lock release error"
+          );
+        }
+      },
+      async extend() {
+        try {
+          return await store.expireIfEquals(key, token, ttlSeconds);
+        } catch (error) {
+          // Most likely a blip; the lock is still ours until the TTL runs out
+          logger.warn(
+            { err: error, key, store: store.name },
+            "Cache lock extend error"
+          );
+          return true;
+        }
+      },
+    };
+  } catch (error) {
+    logger.warn(
+      { err: error, key, store: cacheStore?.name },
+      "Cache lock error; continuing without the lock"
+    );
+    return {
+      acquired: true,
+      release: async () => {},
+      extend: async () => true,
+    };
+  }
+}
+
+/**
+ * Fixed-window rate limit: allows `limit` calls per `windowSeconds` for `key`
+ * and returns whether this call is one of them. One atomic increment per
+ * call counts the window's calls. Like acquireLock it fails open when the
+ * store can't be reached.
+ */
+export async function takeRateLimit(
+  key: string,
+  limit: number,
+  windowSeconds: number
+): Promise<boolean> {
+  const window = Math.floor(Date.now() / 1000 / windowSeconds);
+  try {
+    const store = getCacheStore();
+    const count = await store.increment(
+      `ratelimit:${key}:${window}`,
+      windowSeconds
+    );
+    return count <= limit;
   } catch (error) {
-    logger.warn({ err: error, key }, "[upstash] Redis cache set error");
+    logger.warn(
+      { err: error, key, store: cacheStore?.name },
+      "Rate limit error; allowing the request"
+    );
+    return true;
   }
 }
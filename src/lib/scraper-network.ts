@@ -0,0 +1,245 @@
+// src/lib/scraper-network.ts
+import "server-only";
+import {
+  Agent,
+  ProxyAgent,
+  fetch as undiciFetch,
+  type Dispatcher,
+  type Response as UndiciResponse,
+} from "undici";
+import { createSocksConnector } from "./socks-connector";
+import { logger } from "./logger";
+
+// Network policy for agent-twitter-client. Scraper requests can leave through
+// one of several proxies so a blocked IP doesn't take scraping down:
+//   SCRAPER_PROXY_URLS         comma-separated http://, https://, socks5:// or
+//                              socks5h:// URLs (credentials in the URL are used)
+//   SCRAPER_PROXY_ROTATION     "sticky" (default): each account session keeps
+//                              one proxy, since X ties sessions to IPs;
+//                              "per-request": every request takes the next one
+//   SCRAPER_REQUEST_TIMEOUT_MS per-request timeout (default 20s)
+//   SCRAPER_USER_AGENT_POLICY  "library" (default) keeps agent-twitter-client's
+//                              user agent, "fixed" sends SCRAPER_USER_AGENT,
+//                              "rotate" gives each session one from a small list
+// PROXY_URL is still read as a single-proxy fallback.
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 20_000;
+// A proxy that fails to connect is skipped for this long
+const PROXY_COOLDOWN_MS = 2 * 60 * 1000; // 2 minutes
+
+// Current desktop/mobile browsers; a session keeps the one it was given
+const ROTATING_USER_AGENTS = [
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36",
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Safari/605.1.15",
+  "Mozilla/5.0 (X11; Linux x86_64; rv:131.0) Gecko/20100101 Firefox/131.0",
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Mobile/15E148 Safari/604.1",
+  "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Mobile Safari/537.36",
+];
+
+interface Egress {
+  label: string; // Proxy URL without credentials, or "direct"
+  dispatcher: Dispatcher;
+  failedUntil: number;
+}
+
+export interface ScraperNetwork {
+  fetch: typeof fetch;
+  egress: string; // Where a sticky session's requests leave from
+  userAgent?: string;
+}
+
+let egresses: Egress[] | null = null;
+let nextEgressIndex = 0;
+let nextUserAgentIndex = 0;
+
+const getRequestTimeoutMs = () =>
+  Number(process.env.SCRAPER_REQUEST_TIMEOUT_MS) || DEFAULT_REQUEST_TIMEOUT_MS;
+
+// Never log proxy credentials
+function redactProxyUrl(url: URL): string {
+  return `${url.protocol}//${url.host}`;
+}
+
+function createEgress(proxyUrl: string): Egress | null {
+  let url: URL;
+  try {
+    url = new URL(proxyUrl);
+  } catch {
+    logger.warn("Ignoring scraper proxy that is not a valid URL.");
+    return null;
+  }
+  const timeoutMs = getRequestTimeoutMs();
+  const label = redactProxyUrl(url);
+
+  if (url.protocol === "http:" || url.protocol === "https:") {
+    return {
+      label,
+      dispatcher: new ProxyAgent({ uri: url.href, connectTimeout: timeoutMs }),
+      failedUntil: 0,
+    };
+  }
+  if (url.protocol === "socks5:" || url.protocol === "socks5h:") {
+    return {
+      label,
+      dispatcher: new Agent({
+        connect: createSocksConnector(url.href, timeoutMs),
+      }),
+      failedUntil: 0,
+    };
+  }
+  logger.warn(
+    { proxy: label },
+    "Ignoring scraper proxy with unsupported protocol."
+  );
+  return null;
+}
+
+function getEgresses(): Egress[] {
+  if (!egresses) {
+    const urls = (process.env.SCRAPER_PROXY_URLS || process.env.PROXY_URL || "")
+      .split(",")
+      .map((url) => url.trim())
+      .filter(Boolean);
+    egresses = urls
+      .map(createEgress)
+      .filter((egress): egress is Egress => !!egress);
+    logger.info(
+      { egresses: egresses.map((egress) => egress.label) },
+      egresses.length
+        ? `Scraper traffic will use ${egresses.length} proxy egress(es).`
+        : "No scraper proxies configured; scraper traffic goes direct."
+    );
+  }
+  return egresses;
+}
+
+// Round-robin over proxies that haven't recently failed; when every proxy is
+// failing, keep rotating rather than silently falling back to our own IP
+function pickEgress(): Egress | null {
+  const all = getEgresses();
+  if (!all.length) return null;
+  const now = Date.now();
+  for (let i = 0; i < all.length; i++) {
+    const egress = all[(nextEgressIndex + i) % all.length];
+    if (egress.failedUntil <= now) {
+      nextEgressIndex = (nextEgressIndex + i + 1) % all.length;
+      return egress;
+    }
+  }
+  return all[nextEgressIndex++ % all.length];
+}
+
+function pickUserAgent(): string | undefined {
+  switch (process.env.SCRAPER_USER_AGENT_POLICY) {
+    case "fixed":
+      return process.env.SCRAPER_USER_AGENT || undefined;
+    case "rotate":
+      return ROTATING_USER_AGENTS[
+        nextUserAgentIndex++ % ROTATING_USER_AGENTS.length
+      ];
+    default:
+      return undefined; // Keep the library's own headers
+  }
+}
+
+// Connection-level failures point at the proxy rather than the account
+const isConnectionError = (error: unknown) =>
+  error instanceof Error &&
+  (error.name === "TimeoutError" ||
+    /ECONNREFUSED|ECONNRESET|ETIMEDOUT|EHOSTUNREACH|SOCKS|proxy|fetch failed/i.test(
+      `${error.message} ${(error.cause as Error | undefined)?.message ?? ""}`
+    ));
+
+// undici's Response isn't the global one callers expect, so rebuild it around
+// the same body stream. Headers are copied pair by pair to keep every
+// Set-Cookie, which the scraper's cookie jar depends on.
+function toFetchResponse(response: UndiciResponse): Response {
+  const headers = new Headers();
+  for (const [name, value] of response.headers) headers.append(name, value);
+  return new Response(response.body as ReadableStream<Uint8Array> | null, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * Builds the `fetch` for one scraper session (one pool account). It applies
+ * the proxy, timeout and user-agent policy and logs the egress of every
+ * request, so blocked IPs can be traced back from the logs.
+ */
+export function createScraperNetwork(account: string): ScraperNetwork {
+  const perRequest = process.env.SCRAPER_PROXY_ROTATION === "per-request";
+  const sessionEgress = perRequest ? null : pickEgress();
+  const userAgent = pickUserAgent();
+  const timeoutMs = getRequestTimeoutMs();
+
+  const scraperFetch = async (
+    input: Parameters<typeof fetch>[0],
+    init?: RequestInit
+  ): Promise<Response> => {
+    const egress = perRequest ? pickEgress() : sessionEgress;
+    // As with fetch, a Request's own method, headers, body and signal apply
+    // unless init overrides them
+    const request = input instanceof Request ? input : null;
+    const url = new URL(input instanceof Request ? input.url : input);
+    const method = init?.method ?? request?.method ?? "GET";
+    const headers = new Headers(init?.headers ?? request?.headers);
+    if (userAgent) headers.set("User-Agent", userAgent);
+    const callerSignal = init?.signal ?? request?.signal;
+    const signal = callerSignal
+      ? AbortSignal.any([callerSignal, AbortSignal.timeout(timeoutMs)])
+      : AbortSignal.timeout(timeoutMs);
+    const startedAt = Date.now();
+
+    try {
+      // undici's fetch, since Node's built-in one won't take our dispatchers
+      const response = await undiciFetch(url, {
+        // Buffered, as scraper bodies are small and can then be resent on a
+        // redirect
+        ...(request?.body && { body: await request.arrayBuffer() }),
+        ...(init as Parameters<typeof undiciFetch>[1]),
+        method,
+        headers: Object.fromEntries(headers),
+        signal,
+        dispatcher: egress?.dispatcher,
+      });
+      logger.info(
+        {
+          account,
+          egress: egress?.label ?? "direct",
+          method,
+          host: url.host,
+          path: url.pathname,
+          status: response.status,
+          durationMs: Date.now() - startedAt,
+        },
+        "Scraper request"
+      );
+      return toFetchResponse(response);
+    } catch (error) {
+      if (egress && isConnectionError(error)) {
+        egress.failedUntil = Date.now() + PROXY_COOLDOWN_MS;
+      }
+      logger.warn(
+        {
+          err: error,
+          account,
+          egress: egress?.label ?? "direct",
+          method,
+          host: url.host,
+          path: url.pathname,
+          durationMs: Date.now() - startedAt,
+        },
+        "Scraper request failed"
+      );
+      throw error;
+    }
+  };
+
+  return {
+    fetch: scraperFetch as typeof fetch,
+    egress: perRequest ? "per-request" : (sessionEgress?.label ?? "direct"),
+    userAgent,
+  };
+}
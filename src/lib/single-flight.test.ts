@@ -0,0 +1,47 @@
+// src/lib/single-flight.test.ts
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { acquireLock } from "./redis";
+import { joinFlight } from "./single-flight";
+
+beforeAll(() => {
+  vi.stubEnv("CACHE_STORE", "memory");
+  vi.useFakeTimers();
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+const isLocked = async (key: string) => {
+  const probe = await acquireLock(`lock:${key}`, 1);
+  await probe.release();
+  return !probe.acquired;
+};
+
+describe("joinFlight", () => {
+  it("keeps the lock for as long as the leader works", async () => {
+    const flight = await joinFlight("slow-analysis", async () => null);
+    expect(flight.status).toBe("leader");
+
+    // Well past the lock's TTL
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+    expect(await isLocked("slow-analysis")).toBe(true);
+
+    if (flight.status === "leader") await flight.release();
+    expect(await isLocked("slow-analysis")).toBe(false);
+  });
+
+  it("frees the lock once the leader stops renewing it", async () => {
+    // A crashed leader never gets to renew
+    vi.spyOn(globalThis, "setInterval").mockReturnValueOnce({
+      unref: () => {},
+    } as never);
+    const flight = await joinFlight("crashed-analysis", async () => null);
+    expect(flight.status).toBe("leader");
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(await isLocked("crashed-analysis")).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+// src/lib/single-flight.ts
+import "server-only";
+import { acquireLock, getCachedData, type CacheLock } from "./redis";
+import { logger } from "./logger";
+
+// Distributed single-flight: of several concurrent callers doing the same
+// expensive work (same key), one runs it while the others wait for its
+// result to show up in the cache. Waiting is bounded, so a slow or crashed
+// leader only costs a duplicate run, never a hung request.
+
+const LOCK_KEY_PREFIX = "lock";
+// An analysis has no upper bound on its run time (slow sources, model calls
+// without a timeout), so the leader renews the lock for as long as it works.
+// The TTL only has to outlast a renewal interval, and frees the lock soon
+// after a leader crashes.
+const LOCK_TTL_SECONDS = 30;
+const LOCK_RENEW_INTERVAL_MS = 10_000;
+const WAIT_TIMEOUT_MS = 90_000;
+const POLL_INTERVAL_MS = 1_000;
+
+export type Flight<T> =
+  // Do the work, store the result, then release()
+  | { status: "leader"; release: () => Promise<void> }
+  // Another caller's result
+  | { status: "shared"; result: T }
+  // Waited too long; do the work without holding the lock
+  | { status: "solo" };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Keeps renewing the lock until the leader releases it
+function lead(key: string, lock: CacheLock): Flight<never> {
+  const renewal = setInterval(async () => {
+    if (await lock.extend()) return;
+    clearInterval(renewal);
+    logger.warn({ key }, "Lost the in-flight lock before finishing the work");
+  }, LOCK_RENEW_INTERVAL_MS);
+  renewal.unref(); // Never keeps the process alive on its own
+  return {
+    status: "leader",
+    async release() {
+      clearInterval(renewal);
+      await lock.release();
+    },
+  };
+}
+
+/**
+ * Becomes the leader for `key`, or waits for the leader's result, which
+ * `readResult` looks up (returning null until it's there). If the leader
+ * gives up without a result, the next waiter to notice takes over the lock.
+ */
+export async function joinFlight<T>(
+  key: string,
+  readResult: () => Promise<T | null>,
+  onWait?: () => void
+): Promise<Flight<T>> {
+  const lockKey = `${LOCK_KEY_PREFIX}:${key}`;
+  const lock = await acquireLock(lockKey, LOCK_TTL_SECONDS);
+  if (lock.acquired) return lead(key, lock);
+
+  onWait?.();
+  logger.info({ key }, "Waiting for in-flight work with the same key");
+  const deadline = Date.now() + WAIT_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await sleep(POLL_INTERVAL_MS);
+    const result = await readResult();
+    if (result) return { status: "shared", result };
+
+    if (!(await getCachedData<string>(lockKey))) {
+      // Released (or expired) with no result: the leader failed
+      const retry = await acquireLock(lockKey, LOCK_TTL_SECONDS);
+      if (retry.acquired) return lead(key, retry);
+    }
+  }
+
+  logger.warn(
+    { key, waitedMs: WAIT_TIMEOUT_MS },
+    "Timed out waiting for in-flight work; running it again"
+  );
+  return { status: "solo" };
+}
@@ -0,0 +1,47 @@
+// src/lib/social-data-chain.ts
+import "server-only";
+import { logger } from "./logger";
+import { apifySource } from "./apify-source";
+import { blueskySource } from "./bluesky-source";
+import { exaSource } from "./exa-source";
+import { mastodonSource } from "./mastodon-source";
+import { twitterScraperSource } from "./twitter-scraper-source";
+import type { SocialDataSource } from "./social-data-source";
+import type { SocialPlatform } from "./social-handle";
+
+const SOCIAL_DATA_SOURCES: SocialDataSource[] = [
+  twitterScraperSource,
+  apifySource,
+  exaSource,
+];
+
+const DEFAULT_SOURCE_ORDER = SOCIAL_DATA_SOURCES.map((s) => s.name);
+
+// Fallback order for an account's platform. For X, SOCIAL_DATA_SOURCES is a
+// comma separated list of source names, e.g. "apify,scraper"; unknown names
+// are ignored.
+export function getSocialDataSources(
+  platform: SocialPlatform = "x"
+): SocialDataSource[] {
+  if (platform === "bluesky") return [blueskySource];
+  if (platform === "mastodon") return [mastodonSource];
+
+  const names = process.env.SOCIAL_DATA_SOURCES?.split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (!names?.length) {
+    return SOCIAL_DATA_SOURCES;
+  }
+
+  const sources = names.flatMap((name) => {
+    const source = SOCIAL_DATA_SOURCES.find((s) => s.name === name);
+    if (!source) {
+      logger.warn(
+        { name, known: DEFAULT_SOURCE_ORDER },
+        "Ignoring unknown social data source in SOCIAL_DATA_SOURCES"
+      );
+    }
+    return source ? [source] : [];
+  });
+  return sources.length > 0 ? sources : SOCIAL_DATA_SOURCES;
+}
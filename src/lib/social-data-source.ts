@@ -0,0 +1,175 @@
+// src/lib/social-data-source.ts
+import "server-only";
+import { logger } from "./logger";
+import { getFixtureMode, withFixture } from "./fixtures";
+import { checkTweetWindow, type TweetWindow } from "./tweet-window";
+
+// Normalized account data shared by every backend (scraper, Exa, Apify, ...)
+export interface SocialProfile {
+  username: string;
+  name?: string;
+  bio?: string;
+  location?: string;
+  followersCount?: number;
+  postsCount?: number;
+  avatarUrl?: string;
+  profileUrl?: string;
+}
+
+// Another post shown alongside one of the user's: what it quotes or answers
+export interface SocialPostContext {
+  author?: string; // Handle, without "@"
+  text: string;
+  url?: string;
+}
+
+// A photo attached to a post
+export interface SocialPostImage {
+  url: string;
+  alt?: string; // Alt text written by the author
+}
+
+export interface SocialPost {
+  id?: string;
+  url?: string;
+  text: string;
+  createdAt: string; // ISO string
+  likes: number;
+  reposts: number;
+  replies: number;
+  quotes: number;
+  isReply?: boolean;
+  isRetweet?: boolean;
+  isQuote?: boolean;
+  isPin?: boolean;
+  quoted?: SocialPostContext; // The quoted post, when the source has it
+  // The post being replied to; for self-threads, the previous post in the thread
+  parent?: SocialPostContext;
+  images?: SocialPostImage[];
+}
+
+export interface SocialAccountData {
+  source: string; // Name of the data source that produced it
+  profile: SocialProfile;
+  posts: SocialPost[]; // Newest first
+}
+
+export interface FetchAccountOptions {
+  tweetWindow: TweetWindow;
+  // Stop once this many posts inside the window have been collected
+  collectLimit: number;
+  onPostsFetched?: (fetched: number, total: number) => void;
+}
+
+export interface SocialDataSource {
+  name: string;
+  // False when the backend's credentials/config are missing; it is then skipped
+  isConfigured(): boolean;
+  // Resolves null when the account does not exist on this backend; throws on failures
+  fetchAccount(
+    username: string,
+    options: FetchAccountOptions
+  ): Promise<SocialAccountData | null>;
+}
+
+// Keeps only posts inside the window, for backends that can't filter while paging
+export function applyTweetWindow(
+  posts: SocialPost[],
+  options: FetchAccountOptions
+): SocialPost[] {
+  return posts
+    .filter(
+      (post) =>
+        checkTweetWindow(
+          post,
+          new Date(post.createdAt),
+          options.tweetWindow
+        ) === "include"
+    )
+    .slice(0, options.collectLimit);
+}
+
+/**
+ * Tries each configured source in order and returns the first account found.
+ * A source that throws falls through to the next one; if every source fails,
+ * the errors are combined so the caller can still explain what went wrong.
+ *
+ * With FIXTURE_MODE set, the whole chain's result is recorded/replayed, so a
+ * replay needs no credentials for any of the sources.
+ */
+export async function fetchFromSources(
+  sources: SocialDataSource[],
+  username: string,
+  options: FetchAccountOptions
+): Promise<SocialAccountData | null> {
+  if (getFixtureMode() === "off") {
+    return fetchFromSourceChain(sources, username, options);
+  }
+
+  const account = await withFixture(
+    "social",
+    {
+      sources: sources.map((source) => source.name),
+      username,
+      tweetWindow: options.tweetWindow,
+      collectLimit: options.collectLimit,
+    },
+    () => fetchFromSourceChain(sources, username, options)
+  );
+  if (account && getFixtureMode() === "replay") {
+    options.onPostsFetched?.(account.posts.length, options.collectLimit);
+  }
+  return account;
+}
+
+async function fetchFromSourceChain(
+  sources: SocialDataSource[],
+  username: string,
+  options: FetchAccountOptions
+): Promise<SocialAccountData | null> {
+  const configured = sources.filter((source) => source.isConfigured());
+  if (configured.length === 0) {
+    logger.error(
+      { sources: sources.map((s) => s.name) },
+      "No social data source is configured."
+    );
+    throw new Error("No social data source is configured.");
+  }
+
+  const failures: { source: string; error: unknown }[] = [];
+  let isNotFound = false;
+  for (const source of configured) {
+    try {
+      logger.info(
+        { username, source: source.name },
+        `Fetching account data for @${username} using ${source.name}`
+      );
+      const account = await source.fetchAccount(username, options);
+      if (account) return account;
+      isNotFound = true;
+      logger.info(
+        { username, source: source.name },
+        "Account not found on source, trying the next one."
+      );
+    } catch (error) {
+      logger.warn(
+        { err: error, username, source: source.name },
+        "Social data source failed, falling back to the next one."
+      );
+      failures.push({ source: source.name, error });
+    }
+  }
+
+  // A definite "no such account" beats other sources being down
+  if (isNotFound) return null;
+  if (failures.length === 1) throw failures[0].error;
+  throw new Error(
+    failures
+      .map(
+        ({ source, error }) =>
+          `${source}: ${error instanceof Error ? error.message : String(error)}`
+      )
+      .join("; "),
+    { cause: failures[0].error }
+  );
+}
@@ -0,0 +1,68 @@
+// src/lib/social-handle.ts
+// Shared by the client (input parsing, badges) and the server (source routing)
+
+export const SOCIAL_PLATFORMS = ["x", "bluesky", "mastodon"] as const;
+export type SocialPlatform = (typeof SOCIAL_PLATFORMS)[number];
+
+export const PLATFORM_LABELS: Record<SocialPlatform, string> = {
+  x: "X",
+  bluesky: "Bluesky",
+  mastodon: "Mastodon",
+};
+
+export interface SocialHandle {
+  platform: SocialPlatform;
+  handle: string; // Without the leading "@"; "user@instance" for Mastodon
+}
+
+const BSKY_PROFILE_URL = /^https?:\/\/bsky\.app\/profile\/([^/?#]+)/i;
+// e.g. https://mastodon.social/@user
+const MASTODON_PROFILE_URL = /^https?:\/\/([a-z0-9.-]+)\/@([a-z0-9_.-]+)\/?$/i;
+// Fediverse address: user@instance.social, with or without the leading "@"
+const FEDIVERSE_ADDRESS = /^@?([a-z0-9_.-]+)@([a-z0-9-]+(?:\.[a-z0-9-]+)+)$/i;
+// Bluesky handles are domain names; X handles can never contain a dot
+const DOMAIN_HANDLE = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+/**
+ * Works out which platform a user-typed account refers to:
+ * - "@user@instance.social" or an instance profile URL → Mastodon/ActivityPub
+ * - "did:plc:...", "alice.bsky.social" or a bsky.app profile URL → Bluesky
+ * - anything else is treated as an X handle, as before
+ * Returns null for empty input.
+ */
+export function parseSocialHandle(input: string): SocialHandle | null {
+  const trimmed = input.trim();
+  const profileUrl = trimmed.match(BSKY_PROFILE_URL);
+  if (profileUrl) {
+    return {
+      platform: "bluesky",
+      handle: decodeURIComponent(profileUrl[1]).toLowerCase(),
+    };
+  }
+
+  const address = trimmed.match(FEDIVERSE_ADDRESS);
+  if (address) {
+    return {
+      platform: "mastodon",
+      handle: `${address[1]}@${address[2].toLowerCase()}`,
+    };
+  }
+  const instanceUrl = trimmed.match(MASTODON_PROFILE_URL);
+  if (instanceUrl) {
+    return {
+      platform: "mastodon",
+      handle: `${instanceUrl[2]}@${instanceUrl[1].toLowerCase()}`,
+    };
+  }
+
+  const handle = trimmed.replace(/^@/, "");
+  if (!handle) return null;
+  if (handle.startsWith("did:") || DOMAIN_HANDLE.test(handle)) {
+    return { platform: "bluesky", handle: handle.toLowerCase() };
+  }
+  return { platform: "x", handle };
+}
+
+// Stable id for cache keys. X keeps the bare handle so existing keys stay valid.
+export const getSocialHandleKey = ({ platform, handle }: SocialHandle) =>
+  platform === "x" ? handle : `${platform}:${handle}`;
@@ -0,0 +1,182 @@
+// src/lib/socks-connector.ts
+import "server-only";
+import net from "net";
+import tls from "tls";
+import type { buildConnector } from "undici";
+
+const SOCKS_VERSION = 0x05;
+const AUTH_NONE = 0x00;
+const AUTH_USERNAME_PASSWORD = 0x02;
+const COMMAND_CONNECT = 0x01;
+const ADDRESS_DOMAIN = 0x03;
+
+// Reply codes from RFC 1928 section 6, for readable errors
+const REPLY_ERRORS: Record<number, string> = {
+  0x01: "general SOCKS server failure",
+  0x02: "connection not allowed by ruleset",
+  0x03: "network unreachable",
+  0x04: "host unreachable",
+  0x05: "connection refused",
+  0x06: "TTL expired",
+  0x07: "command not supported",
+  0x08: "address type not supported",
+};
+
+// Waits until `length` bytes can be read from a paused socket
+async function readBytes(socket: net.Socket, length: number): Promise<Buffer> {
+  for (;;) {
+    const chunk: Buffer | null = socket.read(length);
+    if (chunk) return chunk;
+    if (socket.readableEnded || socket.destroyed) {
+      throw new Error("SOCKS proxy closed the connection during handshake");
+    }
+    await new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        socket.off("readable", onReadable);
+        socket.off("error", onError);
+        socket.off("close", onReadable);
+      };
+      const onReadable = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      socket.once("readable", onReadable);
+      socket.once("close", onReadable);
+      socket.once("error", onError);
+    });
+  }
+}
+
+/**
+ * RFC 1928 handshake: negotiates auth (none, or RFC 1929 username/password
+ * when the proxy URL carries credentials) and asks the proxy to CONNECT to
+ * host:port. Target hostnames are always resolved by the proxy, so DNS
+ * lookups leave through the same egress as the traffic.
+ */
+async function socksHandshake(
+  socket: net.Socket,
+  proxy: URL,
+  host: string,
+  port: number
+) {
+  const username = decodeURIComponent(proxy.username);
+  const password = decodeURIComponent(proxy.password);
+  const methods = username ? [AUTH_NONE, AUTH_USERNAME_PASSWORD] : [AUTH_NONE];
+  socket.write(Buffer.from([SOCKS_VERSION, methods.length, ...methods]));
+
+  const [, method] = await readBytes(socket, 2);
+  if (method === AUTH_USERNAME_PASSWORD) {
+    const user = Buffer.from(username);
+    const pass = Buffer.from(password);
+    socket.write(
+      Buffer.concat([
+        Buffer.from([0x01, user.length]),
+        user,
+        Buffer.from([pass.length]),
+        pass,
+      ])
+    );
+    const [, status] = await readBytes(socket, 2);
+    if (status !== 0x00) {
+      throw new Error("SOCKS proxy rejected the username/password");
+    }
+  } else if (method !== AUTH_NONE) {
+    throw new Error("SOCKS proxy accepted none of the offered auth methods");
+  }
+
+  const hostBytes = Buffer.from(host);
+  const request = Buffer.concat([
+    Buffer.from([
+      SOCKS_VERSION,
+      COMMAND_CONNECT,
+      0x00,
+      ADDRESS_DOMAIN,
+      hostBytes.length,
+    ]),
+    hostBytes,
+    Buffer.from([port >> 8, port & 0xff]),
+  ]);
+  socket.write(request);
+
+  const [, reply, , addressType] = await readBytes(socket, 4);
+  if (reply !== 0x00) {
+    throw new Error(
+      `SOCKS proxy could not connect to ${host}:${port}: ${
+        REPLY_ERRORS[reply] ?? `reply code ${reply}`
+      }`
+    );
+  }
+  // Skip the bound address the proxy reports; we don't need it
+  const addressLength =
+    addressType === 0x01
+      ? 4
+      : addressType === 0x04
+        ? 16
+        : (await readBytes(socket, 1))[0];
+  await readBytes(socket, addressLength + 2);
+}
+
+/**
+ * Builds an undici `connect` function that tunnels every connection through
+ * a socks5:// (or socks5h://) proxy, upgrading to TLS for https origins.
+ * Used as `new Agent({ connect })` since undici only ships HTTP proxying.
+ */
+export function createSocksConnector(
+  proxyUrl: string,
+  timeoutMs: number
+): buildConnector.connector {
+  const proxy = new URL(proxyUrl);
+  const proxyPort = Number(proxy.port) || 1080;
+
+  return (options, callback) => {
+    const targetPort =
+      Number(options.port) || (options.protocol === "https:" ? 443 : 80);
+    const socket = net.connect({ host: proxy.hostname, port: proxyPort });
+    socket.pause();
+
+    // Report the first outcome only; after hand-off undici owns the socket
+    let settled = false;
+    const finish = (
+      ...[error, connected]: [Error, null] | [null, net.Socket]
+    ) => {
+      if (settled) return;
+      settled = true;
+      socket.off("error", onError);
+      socket.setTimeout(0);
+      if (error) {
+        socket.destroy();
+        callback(error, null);
+      } else {
+        callback(null, connected);
+      }
+    };
+    const onError = (error: Error) => finish(error, null);
+    socket.on("error", onError);
+    socket.setTimeout(timeoutMs, () =>
+      finish(new Error(`SOCKS proxy timed out after ${timeoutMs}ms`), null)
+    );
+
+    socket.once("connect", () => {
+      socksHandshake(socket, proxy, options.hostname, targetPort)
+        .then(() => {
+          if (options.protocol !== "https:") {
+            socket.resume();
+            finish(null, socket);
+            return;
+          }
+          const secureSocket = tls.connect({
+            socket,
+            servername: options.servername || options.hostname,
+            ALPNProtocols: ["http/1.1"],
+          });
+          secureSocket.once("secureConnect", () => finish(null, secureSocket));
+          secureSocket.once("error", (error) => finish(error, null));
+        })
+        .catch((error: Error) => finish(error, null));
+    });
+  };
+}
@@ -0,0 +1,91 @@
+// src/lib/source-archive.ts
+import "server-only";
+import { createHash } from "crypto";
+import { getCachedData, setCachedData } from "./redis";
+import { logger } from "./logger";
+import type { SocialPlatform } from "./social-handle";
+import type { SocialProfile } from "./social-data-source";
+
+// Content-addressed archive of the material each analysis was based on. The
+// record is stored under its own SHA-256, so a hash on an analysis (or folded
+// into an on-chain reportHash) can always be resolved to the exact profile and
+// posts the model saw, and identical inputs share one record.
+
+const ARCHIVE_KEY_PREFIX = "source:v1";
+const ARCHIVE_TTL_SECONDS = 60 * 60 * 24 * 365; // 1 year, long enough for disputes
+
+// A post exactly as it was put in the prompt; `id` is what evidence cites
+export interface ArchivedPost {
+  id: string;
+  url?: string;
+  text: string;
+  created_at: string;
+  favorite_count: number;
+  retweet_count: number;
+  reply_count: number;
+  quote_count: number;
+  is_quote_status: boolean;
+  quoted?: { author?: string; text: string };
+  in_reply_to?: { author?: string; text: string };
+  images?: { url: string; alt?: string }[];
+}
+
+export interface SourceArchiveRecord {
+  version: 1;
+  platform: SocialPlatform;
+  handle: string;
+  dataSource: string;
+  profile: SocialProfile;
+  posts: ArchivedPost[];
+}
+
+// JSON with object keys sorted at every level, so equal content hashes equally
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export const getSourceHash = (record: SourceArchiveRecord) =>
+  createHash("sha256").update(canonicalJson(record)).digest("hex");
+
+// Stores the record under its content hash and returns the hash. Cache write
+// failures are logged by setCachedData and never cost the user their analysis.
+export async function archiveSourceMaterial(
+  record: SourceArchiveRecord
+): Promise<string> {
+  const hash = getSourceHash(record);
+  await setCachedData(
+    `${ARCHIVE_KEY_PREFIX}:${hash}`,
+    record,
+    ARCHIVE_TTL_SECONDS
+  );
+  logger.debug(
+    { hash, handle: record.handle, posts: record.posts.length },
+    "Archived analysis source material"
+  );
+  return hash;
+}
+
+// Resolves a hash back to its record; null when unknown, expired or altered
+export async function getSourceMaterial(
+  hash: string
+): Promise<SourceArchiveRecord | null> {
+  if (!/^[0-9a-f]{64}$/.test(hash)) return null;
+  const record = await getCachedData<SourceArchiveRecord>(
+    `${ARCHIVE_KEY_PREFIX}:${hash}`
+  );
+  if (record && getSourceHash(record) !== hash) {
+    logger.warn({ hash }, "Archived source material does not match its hash");
+    return null;
+  }
+  return record;
+}
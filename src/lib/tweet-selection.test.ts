@@ -0,0 +1,168 @@
+// src/lib/tweet-selection.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  getCandidateLimit,
+  resolveSelectionStrategy,
+  selectTweets,
+  type TweetSelectionStrategy,
+  type TweetSignals,
+} from "./tweet-selection";
+
+const tweet = (
+  text: string,
+  overrides: Partial<TweetSignals> = {}
+): TweetSignals => ({
+  text,
+  likes: 0,
+  retweets: 0,
+  replies: 0,
+  quotes: 0,
+  isRetweet: false,
+  isQuote: false,
+  ...overrides,
+});
+
+const select = (
+  tweets: TweetSignals[],
+  strategy: TweetSelectionStrategy,
+  limit: number
+) => selectTweets(tweets, (signals) => signals, strategy, limit);
+
+describe("resolveSelectionStrategy", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("defaults to the recent tweets", () => {
+    vi.stubEnv("ANALYSIS_TWEET_SELECTION", "");
+
+    expect(resolveSelectionStrategy()).toBe("recent");
+    expect(resolveSelectionStrategy("no-such-strategy")).toBe("recent");
+  });
+
+  it("takes the option over ANALYSIS_TWEET_SELECTION", () => {
+    vi.stubEnv("ANALYSIS_TWEET_SELECTION", "Engagement-Diverse");
+
+    expect(resolveSelectionStrategy()).toBe("engagement-diverse");
+    expect(resolveSelectionStrategy("recent")).toBe("recent");
+  });
+});
+
+describe("getCandidateLimit", () => {
+  it("collects a larger pool only for ranked strategies", () => {
+    expect(getCandidateLimit("recent", 50)).toBe(50);
+    expect(getCandidateLimit("engagement-diverse", 50)).toBe(100);
+  });
+});
+
+describe("selectTweets", () => {
+  const timeline = [
+    tweet("Newest post about grant reviews"),
+    tweet("Middle post about open source funding"),
+    tweet("Oldest post about public goods"),
+  ];
+
+  describe("recent", () => {
+    it("keeps the first tweets of the timeline", () => {
+      const { selected, summary } = select(timeline, "recent", 2);
+
+      expect(selected).toEqual(timeline.slice(0, 2));
+      expect(summary).toEqual({
+        strategy: "recent",
+        candidates: 3,
+        duplicatesRemoved: 0,
+        selected: 2,
+      });
+    });
+
+    it("returns every tweet when asked for more than there are", () => {
+      expect(select(timeline, "recent", 10).selected).toEqual(timeline);
+    });
+  });
+
+  describe("engagement-diverse", () => {
+    it("keeps the most engaged copy of near-duplicate texts", () => {
+      const first = tweet("Grant funding for open source maintainers matters", {
+        likes: 2,
+      });
+      const repost = tweet(
+        "Grant funding for open source maintainers matters! https://t.co/x",
+        { likes: 50 }
+      );
+      const other = tweet("Completely different thoughts on cooking pasta");
+
+      const { selected, summary } = select(
+        [first, repost, other],
+        "engagement-diverse",
+        10
+      );
+
+      expect(selected).toEqual([repost, other]);
+      expect(summary.duplicatesRemoved).toBe(1);
+    });
+
+    it("prefers engaged and original posts", () => {
+      const quiet = tweet("Quiet post about gardening tomatoes", { likes: 1 });
+      const popular = tweet("Popular post about housing policy reform", {
+        likes: 40,
+        retweets: 10,
+      });
+      const retweet = tweet("Retweeted thoughts regarding climate policy", {
+        likes: 40,
+        retweets: 10,
+        isRetweet: true,
+      });
+
+      expect(
+        select([quiet, retweet, popular], "engagement-diverse", 1).selected
+      ).toEqual([popular]);
+    });
+
+    it("trades some engagement for topic diversity", () => {
+      const rally = tweet("Bitcoin price rally continues strongly today", {
+        likes: 100,
+      });
+      const sameTopic = tweet(
+        "Bitcoin price rally continues strongly this week",
+        { likes: 90 }
+      );
+      const otherTopic = tweet("Volunteering weekend at the animal shelter", {
+        likes: 20,
+      });
+
+      expect(
+        select([rally, sameTopic, otherTopic], "engagement-diverse", 2).selected
+      ).toEqual([rally, otherTopic]);
+    });
+
+    it("breaks ties in favour of the newer tweet", () => {
+      const newer = tweet("Thoughts on quadratic funding rounds", { likes: 5 });
+      const older = tweet("Notes from the community call agenda", { likes: 5 });
+
+      expect(select([newer, older], "engagement-diverse", 1).selected).toEqual([
+        newer,
+      ]);
+    });
+
+    it("returns every distinct tweet in timeline order when asked for more", () => {
+      const ranked = timeline.map((signals, index) => ({
+        ...signals,
+        likes: index * 10, // The oldest is the most engaged
+      }));
+
+      const { selected, summary } = select(ranked, "engagement-diverse", 10);
+
+      expect(selected).toEqual(ranked);
+      expect(summary).toEqual({
+        strategy: "engagement-diverse",
+        candidates: 3,
+        duplicatesRemoved: 0,
+        selected: 3,
+      });
+    });
+
+    it("handles an empty timeline", () => {
+      expect(select([], "engagement-diverse", 5).selected).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+// src/lib/tweet-selection.ts
+
+export const TWEET_SELECTION_STRATEGIES = [
+  "recent", // First N tweets from the timeline, as scraped
+  "engagement-diverse", // Deduped, engagement/originality ranked, topic-diverse
+] as const;
+
+export type TweetSelectionStrategy =
+  (typeof TWEET_SELECTION_STRATEGIES)[number];
+
+const DEFAULT_STRATEGY: TweetSelectionStrategy = "recent";
+// Ranked strategies pick from a larger pool than they return
+const CANDIDATE_POOL_MULTIPLIER = 2;
+// Word-set Jaccard similarity above which two posts count as the same text
+const DUPLICATE_SIMILARITY = 0.8;
+// How strongly similarity to already-picked posts penalises a candidate (0..1)
+const DIVERSITY_WEIGHT = 0.5;
+
+// The signals selection needs, read from whatever tweet shape the caller has
+export interface TweetSignals {
+  text: string;
+  likes: number;
+  retweets: number;
+  replies: number;
+  quotes: number;
+  isRetweet: boolean;
+  isQuote: boolean;
+}
+
+export interface TweetSelectionSummary {
+  strategy: TweetSelectionStrategy;
+  candidates: number; // Tweets considered
+  duplicatesRemoved: number;
+  selected: number;
+}
+
+function isTweetSelectionStrategy(
+  value: string
+): value is TweetSelectionStrategy {
+  return (TWEET_SELECTION_STRATEGIES as readonly string[]).includes(value);
+}
+
+// Explicit option, then ANALYSIS_TWEET_SELECTION, then the default
+export function resolveSelectionStrategy(
+  strategy?: string
+): TweetSelectionStrategy {
+  const value = (strategy || process.env.ANALYSIS_TWEET_SELECTION || "")
+    .trim()
+    .toLowerCase();
+  return isTweetSelectionStrategy(value) ? value : DEFAULT_STRATEGY;
+}
+
+// How many tweets to collect so the strategy has something to choose from
+export function getCandidateLimit(
+  strategy: TweetSelectionStrategy,
+  maxTweets: number
+): number {
+  return strategy === "recent"
+    ? maxTweets
+    : maxTweets * CANDIDATE_POOL_MULTIPLIER;
+}
+
+// Lowercased words with links, mentions and punctuation stripped
+function toWordSet(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/https?:\/\/\S+/g, " ")
+      .replace(/[@#]\w+/g, " ")
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter((word) => word.length > 2)
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  // Link- or emoji-only posts have no words to compare, so never match
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+const engagementOf = (signals: TweetSignals) =>
+  signals.likes + 2 * signals.retweets + signals.replies + signals.quotes;
+
+// Own words say more about the author than amplified ones
+const originalityOf = (signals: TweetSignals) =>
+  signals.isRetweet ? 0.3 : signals.isQuote ? 0.8 : 1;
+
+interface Candidate<T> {
+  tweet: T;
+  index: number; // Position in the original (newest-first) list
+  words: Set<string>;
+  engagement: number;
+  originality: number;
+}
+
+/**
+ * Picks up to `limit` tweets using the given strategy. The "engagement-diverse"
+ * strategy drops near-duplicate texts (keeping the most engaged copy), scores
+ * the rest by log engagement relative to the account's best post times
+ * originality, then greedily picks high scorers that are unlike those already
+ * chosen. Selected tweets keep their original timeline order.
+ */
+export function selectTweets<T>(
+  tweets: T[],
+  getSignals: (tweet: T) => TweetSignals,
+  strategy: TweetSelectionStrategy,
+  limit: number
+): { selected: T[]; summary: TweetSelectionSummary } {
+  if (strategy === "recent") {
+    const selected = tweets.slice(0, limit);
+    return {
+      selected,
+      summary: {
+        strategy,
+        candidates: tweets.length,
+        duplicatesRemoved: 0,
+        selected: selected.length,
+      },
+    };
+  }
+
+  const unique: Candidate<T>[] = [];
+  for (const [index, tweet] of tweets.entries()) {
+    const signals = getSignals(tweet);
+    const candidate: Candidate<T> = {
+      tweet,
+      index,
+      words: toWordSet(signals.text),
+      engagement: engagementOf(signals),
+      originality: originalityOf(signals),
+    };
+    const duplicateOf = unique.findIndex(
+      (kept) => jaccard(kept.words, candidate.words) >= DUPLICATE_SIMILARITY
+    );
+    if (duplicateOf === -1) {
+      unique.push(candidate);
+    } else if (candidate.engagement > unique[duplicateOf].engagement) {
+      unique[duplicateOf] = candidate;
+    }
+  }
+
+  const maxLogEngagement = Math.max(
+    1,
+    ...unique.map((c) => Math.log1p(c.engagement))
+  );
+  const baseScore = (c: Candidate<T>) =>
+    (0.5 + 0.5 * (Math.log1p(c.engagement) / maxLogEngagement)) * c.originality;
+
+  // Greedy maximal-marginal-relevance pick for topic diversity
+  const remaining = [...unique];
+  const picked: Candidate<T>[] = [];
+  while (picked.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, i) => {
+      const redundancy = Math.max(
+        0,
+        ...picked.map((p) => jaccard(p.words, candidate.words))
+      );
+      const score = baseScore(candidate) - DIVERSITY_WEIGHT * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+    picked.push(...remaining.splice(bestIndex, 1));
+  }
+
+  const selected = picked
+    .sort((a, b) => a.index - b.index)
+    .map((candidate) => candidate.tweet);
+
+  return {
+    selected,
+    summary: {
+      strategy,
+      candidates: tweets.length,
+      duplicatesRemoved: tweets.length - unique.length,
+      selected: selected.length,
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// src/lib/tweet-window.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resolveTweetWindow } from "./tweet-window";
+
+describe("resolveTweetWindow", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("clamps the prompt token budget to a sane range", () => {
+    expect(resolveTweetWindow({ maxPromptTokens: 10 }).maxPromptTokens).toBe(
+      500
+    );
+    expect(
+      resolveTweetWindow({ maxPromptTokens: 5_000_000 }).maxPromptTokens
+    ).toBe(32000);
+    expect(resolveTweetWindow({ maxPromptTokens: 12000 }).maxPromptTokens).toBe(
+      12000
+    );
+  });
+
+  it("clamps a budget from the environment too", () => {
+    vi.stubEnv("ANALYSIS_MAX_PROMPT_TOKENS", "1000000");
+
+    expect(resolveTweetWindow().maxPromptTokens).toBe(32000);
+  });
+
+  it("clamps maxTweets", () => {
+    expect(resolveTweetWindow({ maxTweets: 10_000 }).maxTweets).toBe(200);
+    expect(resolveTweetWindow({ maxTweets: -3 }).maxTweets).toBe(1);
+  });
+});
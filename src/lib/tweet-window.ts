@@ -0,0 +1,182 @@
+// src/lib/tweet-window.ts
+
+const DEFAULT_MAX_TWEETS = 20;
+const MAX_TWEETS_LIMIT = 200;
+// Upper bound on tweets scanned to fill a filtered window, as a multiple of maxTweets
+const SCAN_MULTIPLIER = 3;
+const DEFAULT_MAX_PROMPT_TOKENS = 8000;
+// The budget can come from the browser, so it's bounded like maxTweets
+const MIN_PROMPT_TOKENS = 500;
+const MAX_PROMPT_TOKENS_LIMIT = 32000;
+// A single post is clipped to this many characters before budgeting
+const MAX_POST_CHARS = 1200;
+// Quoted and replied-to posts are clipped harder; they're context, not evidence
+const MAX_CONTEXT_POST_CHARS = 400;
+// Total characters of such context per prompt (ANALYSIS_MAX_CONTEXT_CHARS)
+const DEFAULT_MAX_CONTEXT_CHARS = 4000;
+
+export interface TweetWindowOptions {
+  maxTweets?: number;
+  since?: string; // ISO date, inclusive
+  until?: string; // ISO date, exclusive
+  includeReplies?: boolean;
+  includeRetweets?: boolean;
+  includeQuotes?: boolean;
+  // Approximate token budget for the <user_tweets> block
+  maxPromptTokens?: number;
+}
+
+export type TweetWindow = Required<
+  Omit<TweetWindowOptions, "since" | "until">
+> & {
+  since?: Date;
+  until?: Date;
+};
+
+// The subset of normalized post fields the window cares about
+interface WindowedTweet {
+  isReply?: boolean;
+  isRetweet?: boolean;
+  isQuote?: boolean;
+  isPin?: boolean;
+}
+
+const parseDate = (value?: string) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const envFlag = (name: string, fallback: boolean) => {
+  const value = process.env[name];
+  return value === undefined ? fallback : value === "true" || value === "1";
+};
+
+/**
+ * Fills in unset window options from ANALYSIS_MAX_TWEETS,
+ * ANALYSIS_INCLUDE_{REPLIES,RETWEETS,QUOTES} and ANALYSIS_MAX_PROMPT_TOKENS.
+ * Defaults match the original behaviour: the 20 most recent tweets of any kind.
+ */
+export function resolveTweetWindow(
+  options: TweetWindowOptions = {}
+): TweetWindow {
+  const maxTweets =
+    options.maxTweets ??
+    Number(process.env.ANALYSIS_MAX_TWEETS || DEFAULT_MAX_TWEETS);
+  const maxPromptTokens =
+    options.maxPromptTokens ??
+    Number(process.env.ANALYSIS_MAX_PROMPT_TOKENS || DEFAULT_MAX_PROMPT_TOKENS);
+
+  return {
+    maxTweets: Math.max(
+      1,
+      Math.min(MAX_TWEETS_LIMIT, Math.floor(maxTweets) || DEFAULT_MAX_TWEETS)
+    ),
+    since: parseDate(options.since),
+    until: parseDate(options.until),
+    includeReplies:
+      options.includeReplies ?? envFlag("ANALYSIS_INCLUDE_REPLIES", true),
+    includeRetweets:
+      options.includeRetweets ?? envFlag("ANALYSIS_INCLUDE_RETWEETS", true),
+    includeQuotes:
+      options.includeQuotes ?? envFlag("ANALYSIS_INCLUDE_QUOTES", true),
+    maxPromptTokens: Math.max(
+      MIN_PROMPT_TOKENS,
+      Math.min(
+        MAX_PROMPT_TOKENS_LIMIT,
+        maxPromptTokens || DEFAULT_MAX_PROMPT_TOKENS
+      )
+    ),
+  };
+}
+
+// How many tweets to request from the scraper so filtering can still fill the window
+export function getScanLimit(window: TweetWindow): number {
+  const isFiltered =
+    !!window.since ||
+    !!window.until ||
+    !window.includeReplies ||
+    !window.includeRetweets ||
+    !window.includeQuotes;
+  return isFiltered
+    ? Math.min(
+        MAX_TWEETS_LIMIT * SCAN_MULTIPLIER,
+        window.maxTweets * SCAN_MULTIPLIER
+      )
+    : window.maxTweets;
+}
+
+export type WindowVerdict = "include" | "skip" | "stop";
+
+/**
+ * Decides what to do with the next tweet from a newest-first timeline.
+ * "stop" means every remaining tweet is older than the window.
+ */
+export function checkTweetWindow(
+  tweet: WindowedTweet,
+  createdAt: Date,
+  window: TweetWindow
+): WindowVerdict {
+  if (window.since && createdAt < window.since) {
+    // Pinned tweets appear first regardless of age, so they don't end the scan
+    return tweet.isPin ? "skip" : "stop";
+  }
+  if (window.until && createdAt >= window.until) return "skip";
+  if (!window.includeReplies && tweet.isReply) return "skip";
+  if (!window.includeRetweets && tweet.isRetweet) return "skip";
+  if (!window.includeQuotes && tweet.isQuote) return "skip";
+  return "include";
+}
+
+// Compact, stable description of which tweets a window selects (used in the prompt and cache keys)
+export function describeTweetWindow(window: TweetWindow): string {
+  const kinds = [
+    window.includeReplies ? "replies" : "",
+    window.includeRetweets ? "retweets" : "",
+    window.includeQuotes ? "quotes" : "",
+  ]
+    .filter(Boolean)
+    .join("+");
+  const range =
+    window.since || window.until
+      ? `_${window.since?.toISOString().slice(0, 10) ?? ""}..${
+          window.until?.toISOString().slice(0, 10) ?? ""
+        }`
+      : "";
+  return `top_${window.maxTweets}_recent${range}_${kinds || "originals"}`;
+}
+
+// Rough token estimate (~4 characters per token for English text)
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const clipPostText = (text: string) =>
+  text.length > MAX_POST_CHARS ? `${text.slice(0, MAX_POST_CHARS)}…` : text;
+
+export const clipContextText = (text: string) =>
+  text.length > MAX_CONTEXT_POST_CHARS
+    ? `${text.slice(0, MAX_CONTEXT_POST_CHARS)}…`
+    : text;
+
+// 0 turns quoted/parent context off entirely
+export const getContextCharBudget = () => {
+  const value = Number(
+    process.env.ANALYSIS_MAX_CONTEXT_CHARS || DEFAULT_MAX_CONTEXT_CHARS
+  );
+  return Number.isNaN(value) ? DEFAULT_MAX_CONTEXT_CHARS : Math.max(0, value);
+};
+
+/**
+ * Returns how many of the (already ordered) post blocks fit in the token
+ * budget, keeping at least one so a single huge post is never dropped outright.
+ */
+export function countPostsWithinBudget(
+  postBlocks: string[],
+  maxTokens: number
+): number {
+  let used = 0;
+  for (let i = 0; i < postBlocks.length; i++) {
+    used += estimateTokens(postBlocks[i]) + 1;
+    if (used > maxTokens) return Math.max(1, i);
+  }
+  return postBlocks.length;
+}
@@ -6,118 +6,348 @@ import type {
 } from "agent-twitter-client";
 import { getCachedData, setCachedData } from "./redis"; // Ensure redis.ts is correctly imported
 import { logger } from "./logger"; // Ensure logger.ts is correctly imported
+import { createScraperNetwork } from "./scraper-network";
 
-const TWITTER_COOKIES_KEY = "twitter_session_cookies:v1";
+// Each pool account keeps its own session under `${prefix}:${username}`.
+// Before the pool, the single TWITTER_USERNAME account's session was stored
+// under the bare prefix; it's still read from there until re-saved.
+const TWITTER_COOKIES_KEY_PREFIX = "twitter_session_cookies:v1";
 const COOKIE_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
 
-// Singleton instance management for the scraper
-let scraperInstance: Scraper | null = null;
-let isInitializing = false;
-let initializationPromise: Promise<Scraper> | null = null;
+// Cool-off after a failure, doubled for each consecutive failure up to the cap.
+// Login failures back off longest: repeated attempts are what gets an account
+// locked, and the other accounts (or data sources) can cover for it.
+const BASE_COOLDOWN_MS = {
+  "rate-limited": 60 * 1000, // 1 minute
+  locked: 15 * 60 * 1000, // 15 minutes
+  error: 30 * 1000, // 30 seconds
+} as const;
+const MAX_COOLDOWN_MS = 6 * 60 * 60 * 1000; // 6 hours
+// Health is an exponential moving average of outcomes, 0 (failing) to 1 (healthy)
+const HEALTH_SMOOTHING = 0.3;
+// How many different accounts one request may try before giving up
+const MAX_ACCOUNT_ATTEMPTS = 3;
 
-async function _initializeScraper(): Promise<Scraper> {
-  logger.info("Initializing Twitter scraper...");
-  // Use a proxy if configured, especially for browser or restrictive server environments
-  const currentScraper = new Scraper({
-    // proxy: process.env.PROXY_URL || undefined, // Uncomment and configure if needed
-  });
+export type ScraperFailure = keyof typeof BASE_COOLDOWN_MS;
 
-  const cachedCookiesString = await getCachedData<string>(TWITTER_COOKIES_KEY);
+interface ScraperAccount {
+  username: string;
+  password: string;
+  email?: string;
+}
+
+// Per-account pool state. The Scraper instance is created lazily on first use.
+interface PoolEntry {
+  account: ScraperAccount;
+  scraper: Scraper | null;
+  initializationPromise: Promise<Scraper> | null;
+  health: number;
+  consecutiveFailures: number;
+  coolingDownUntil: number;
+  lastUsedAt: number;
+}
+
+let pool: PoolEntry[] | null = null;
+
+/**
+ * Scraper accounts come from TWITTER_ACCOUNTS, a JSON array of
+ * `{ "username", "password", "email"? }` objects. The single
+ * TWITTER_USERNAME / TWITTER_PASSWORD / TWITTER_EMAIL account is still
+ * supported and joins the pool when set.
+ */
+function loadAccounts(): ScraperAccount[] {
+  const accounts: ScraperAccount[] = [];
+
+  if (process.env.TWITTER_ACCOUNTS) {
+    try {
+      const parsed: unknown = JSON.parse(process.env.TWITTER_ACCOUNTS);
+      for (const entry of Array.isArray(parsed) ? parsed : []) {
+        if (entry?.username && entry?.password) {
+          accounts.push({
+            username: String(entry.username),
+            password: String(entry.password),
+            email: entry.email ? String(entry.email) : undefined,
+          });
+        }
+      }
+    } catch (error) {
+      logger.error(
+        { err: error },
+        "TWITTER_ACCOUNTS is not valid JSON; ignoring it."
+      );
+    }
+  }
+
+  const username = process.env.TWITTER_USERNAME;
+  const password = process.env.TWITTER_PASSWORD;
+  if (
+    username &&
+    password &&
+    !accounts.some((a) => a.username.toLowerCase() === username.toLowerCase())
+  ) {
+    accounts.push({ username, password, email: process.env.TWITTER_EMAIL });
+  }
+  return accounts;
+}
+
+function getPool(): PoolEntry[] {
+  if (!pool) {
+    pool = loadAccounts().map((account) => ({
+      account,
+      scraper: null,
+      initializationPromise: null,
+      health: 1,
+      consecutiveFailures: 0,
+      coolingDownUntil: 0,
+      lastUsedAt: 0,
+    }));
+    logger.info(
+      { accounts: pool.map((entry) => entry.account.username) },
+      `Twitter scraper pool has ${pool.length} account(s).`
+    );
+  }
+  return pool;
+}
+
+export function hasTwitterAccounts(): boolean {
+  return getPool().length > 0;
+}
+
+const getCookiesKey = (account: ScraperAccount) =>
+  `${TWITTER_COOKIES_KEY_PREFIX}:${account.username.toLowerCase()}`;
+
+const isLegacyAccount = (account: ScraperAccount) =>
+  account.username.toLowerCase() ===
+  process.env.TWITTER_USERNAME?.toLowerCase();
+
+async function _initializeScraper(entry: PoolEntry): Promise<Scraper> {
+  const { account } = entry;
+  const cookiesKey = getCookiesKey(account);
+  // Proxy, timeout and user-agent policy all live in this session's fetch
+  const network = createScraperNetwork(account.username);
+  logger.info(
+    {
+      account: account.username,
+      egress: network.egress,
+      userAgent: network.userAgent ?? "library default",
+    },
+    "Initializing Twitter scraper..."
+  );
+  const currentScraper = new Scraper({ fetch: network.fetch });
+
+  let cachedCookiesString = await getCachedData<string>(cookiesKey);
+  // A session saved before the pool existed; moved to the per-account key
+  // once it's validated, so upgrading doesn't force a fresh login
+  const isLegacySession = !cachedCookiesString && isLegacyAccount(account);
+  if (isLegacySession) {
+    cachedCookiesString = await getCachedData<string>(
+      TWITTER_COOKIES_KEY_PREFIX
+    );
+  }
 
   if (cachedCookiesString) {
     try {
-      logger.info("Attempting to set cookies from cache.");
+      logger.info(
+        { account: account.username },
+        "Attempting to set cookies from cache."
+      );
       // agent-twitter-client's setCookies expects an array of cookie objects.
       // The README implies getCookies() provides this directly for saving.
       await currentScraper.setCookies(JSON.parse(cachedCookiesString));
       const isLoggedIn = await currentScraper.isLoggedIn();
       if (isLoggedIn) {
-        logger.info("Successfully logged in using cached cookies.");
-        scraperInstance = currentScraper;
+        logger.info(
+          { account: account.username, isLegacySession },
+          "Successfully logged in using cached cookies."
+        );
+        if (isLegacySession) {
+          await setCachedData(
+            cookiesKey,
+            cachedCookiesString,
+            COOKIE_TTL_SECONDS
+          );
+        }
         return currentScraper;
       }
       logger.warn(
+        { account: account.username },
         "Cached cookies were found but login validation failed. Proceeding to full login."
       );
     } catch (cookieError) {
       logger.error(
-        { err: cookieError },
+        { err: cookieError, account: account.username },
         "Error setting or validating cached cookies. Proceeding to full login."
       );
       await currentScraper.clearCookies(); // Clear potentially corrupted cookies
     }
   } else {
-    logger.info("No cached cookies found. Proceeding to full login.");
-  }
-
-  const username = process.env.TWITTER_USERNAME;
-  const password = process.env.TWITTER_PASSWORD;
-  const email = process.env.TWITTER_EMAIL; // Needed for some login flows or if basic login fails
-
-  if (!username || !password) {
-    logger.error(
-      "TWITTER_USERNAME or TWITTER_PASSWORD environment variables are not set."
-    );
-    throw new Error(
-      "Twitter authentication credentials missing in environment variables."
+    logger.info(
+      { account: account.username },
+      "No cached cookies found. Proceeding to full login."
     );
   }
 
   try {
-    logger.info(`Attempting login with username: ${username}`);
-    // The README shows basic login as: await scraper.login('username', 'password');
-    // It also lists TWITTER_EMAIL as an auth env var.
-    // We'll use the basic signature first. If your `agent-twitter-client` version requires email for basic, adjust.
-    await currentScraper.login(username, password, email); // Pass email as per README's env var list
-    logger.info("Login successful.");
+    logger.info(`Attempting login with username: ${account.username}`);
+    await currentScraper.login(
+      account.username,
+      account.password,
+      account.email
+    ); // Email is needed for some login flows
+    logger.info({ account: account.username }, "Login successful.");
 
     const cookiesToCache = await currentScraper.getCookies();
     await setCachedData(
-      TWITTER_COOKIES_KEY,
+      cookiesKey,
       JSON.stringify(cookiesToCache),
       COOKIE_TTL_SECONDS
     );
-    logger.info("New cookies saved to cache.");
-    scraperInstance = currentScraper;
+    logger.info({ account: account.username }, "New cookies saved to cache.");
     return currentScraper;
   } catch (loginError) {
-    logger.error({ err: loginError }, "Twitter login failed.");
-    throw loginError; // Re-throw to be caught by the caller
+    logger.error(
+      { err: loginError, account: account.username },
+      "Twitter login failed."
+    );
+    // Tag it so the pool backs off this account for the longest period
+    throw Object.assign(
+      new Error(
+        `Twitter login failed for pool account ${account.username}: ${
+          loginError instanceof Error ? loginError.message : String(loginError)
+        }`,
+        { cause: loginError }
+      ),
+      { scraperFailure: "locked" satisfies ScraperFailure }
+    );
   }
 }
 
-export async function getTwitterScraper(): Promise<Scraper> {
-  if (scraperInstance) {
-    // Optionally, add a quick check like `isLoggedIn()` if performance isn't critical
-    // For now, we assume if instance exists and initialized, it's good.
-    // More robust would be to re-check isLoggedIn() and re-initialize if false.
-    const stillLoggedIn = await scraperInstance.isLoggedIn();
-    if (stillLoggedIn) {
-      return scraperInstance;
-    }
+// Returns the entry's logged-in scraper, logging in at most once concurrently
+async function getEntryScraper(entry: PoolEntry): Promise<Scraper> {
+  if (entry.scraper) {
+    if (await entry.scraper.isLoggedIn()) return entry.scraper;
     logger.warn(
+      { account: entry.account.username },
       "Previously initialized scraper is no longer logged in. Re-initializing."
     );
-    scraperInstance = null; // Force re-initialization
-    initializationPromise = null;
+    entry.scraper = null; // Force re-initialization
+  }
+
+  if (!entry.initializationPromise) {
+    entry.initializationPromise = _initializeScraper(entry)
+      .then((scraper) => {
+        entry.scraper = scraper;
+        return scraper;
+      })
+      .finally(() => {
+        entry.initializationPromise = null; // Next call retries after an error
+      });
+  }
+  return entry.initializationPromise;
+}
+
+// Healthiest available account first; ties go to the least recently used
+function pickEntry(exclude: Set<PoolEntry>): PoolEntry | undefined {
+  const now = Date.now();
+  return getPool()
+    .filter((entry) => !exclude.has(entry) && entry.coolingDownUntil <= now)
+    .sort((a, b) => b.health - a.health || a.lastUsedAt - b.lastUsedAt)[0];
+}
+
+/**
+ * Works out whether a failure says something about the account. Missing
+ * users and private profiles are not the account's fault, so they return
+ * undefined and neither penalise it nor trigger a retry on another account.
+ */
+export function classifyScraperError(
+  error: unknown
+): ScraperFailure | undefined {
+  const tagged = (error as { scraperFailure?: ScraperFailure })?.scraperFailure;
+  if (tagged) return tagged;
+
+  const message =
+    error instanceof Error ? error.message.toLowerCase() : String(error);
+  if (/not found|no user|does not exist|protected|suspended user/.test(message))
+    return undefined;
+  if (/429|rate limit|too many requests/.test(message)) return "rate-limited";
+  if (/login|locked|challenge|denied|unauthori[sz]ed|401|403/.test(message))
+    return "locked";
+  return "error";
+}
+
+function recordSuccess(entry: PoolEntry) {
+  entry.health = entry.health * (1 - HEALTH_SMOOTHING) + HEALTH_SMOOTHING;
+  entry.consecutiveFailures = 0;
+}
+
+function recordFailure(entry: PoolEntry, failure: ScraperFailure) {
+  entry.health *= 1 - HEALTH_SMOOTHING;
+  entry.consecutiveFailures += 1;
+  const cooldown = Math.min(
+    MAX_COOLDOWN_MS,
+    BASE_COOLDOWN_MS[failure] * 2 ** (entry.consecutiveFailures - 1)
+  );
+  entry.coolingDownUntil = Date.now() + cooldown;
+  if (failure !== "rate-limited") entry.scraper = null; // Log in afresh next time
+  logger.warn(
+    {
+      account: entry.account.username,
+      failure,
+      health: entry.health,
+      coolingDownUntil: new Date(entry.coolingDownUntil),
+    },
+    "Scraper account cooling off after a failure."
+  );
+}
+
+/**
+ * Runs `task` with a logged-in scraper from the account pool. When the task
+ * fails for an account-related reason (rate limit, lockout, login failure)
+ * the account is cooled off and the task is retried on the next healthiest
+ * account, up to MAX_ACCOUNT_ATTEMPTS.
+ */
+export async function withTwitterScraper<T>(
+  task: (scraper: Scraper, accountUsername: string) => Promise<T>
+): Promise<T> {
+  if (!hasTwitterAccounts()) {
+    logger.error(
+      "No Twitter scraper accounts configured (TWITTER_ACCOUNTS or TWITTER_USERNAME/TWITTER_PASSWORD)."
+    );
+    throw new Error(
+      "Twitter authentication credentials missing in environment variables."
+    );
   }
 
-  if (isInitializing && initializationPromise) {
-    return initializationPromise;
+  const tried = new Set<PoolEntry>();
+  let lastError: unknown;
+  while (tried.size < MAX_ACCOUNT_ATTEMPTS) {
+    const entry = pickEntry(tried);
+    if (!entry) break;
+    tried.add(entry);
+    entry.lastUsedAt = Date.now();
+
+    try {
+      const scraper = await getEntryScraper(entry);
+      const result = await task(scraper, entry.account.username);
+      recordSuccess(entry);
+      return result;
+    } catch (error) {
+      const failure = classifyScraperError(error);
+      if (!failure) throw error; // Not the account's fault; another won't help
+      recordFailure(entry, failure);
+      lastError = error;
+    }
   }
 
-  isInitializing = true;
-  initializationPromise = _initializeScraper()
-    .catch((err) => {
-      initializationPromise = null; // Clear promise on error so next call retries
-      isInitializing = false;
-      throw err; // Propagate error
-    })
-    .finally(() => {
-      isInitializing = false;
-    });
-
-  return initializationPromise;
+  if (lastError) throw lastError;
+  // Every account is cooling off; the message mentions login so callers
+  // explain it the same way as a failed login
+  const nextRetry = Math.min(...getPool().map((e) => e.coolingDownUntil));
+  throw new Error(
+    `All Twitter scraper accounts are cooling off after failed login or rate limits; retrying after ${new Date(
+      nextRetry
+    ).toISOString()}`
+  );
 }
 
 // Export types for convenience if needed elsewhere
@@ -0,0 +1,178 @@
+// src/lib/twitter-scraper-source.ts
+import "server-only";
+import type { Scraper } from "agent-twitter-client";
+import {
+  hasTwitterAccounts,
+  withTwitterScraper,
+  type ScraperProfile,
+  type ScraperTweet,
+} from "./twitter-scraper-service";
+import { checkTweetWindow, getScanLimit } from "./tweet-window";
+import { logger } from "./logger";
+import type {
+  FetchAccountOptions,
+  SocialAccountData,
+  SocialDataSource,
+  SocialPost,
+  SocialPostContext,
+  SocialProfile,
+} from "./social-data-source";
+
+// Quoted/parent tweets the timeline didn't include are fetched one by one;
+// this caps those extra requests per analysis
+const MAX_CONTEXT_LOOKUPS = 10;
+
+function getTweetDate(tweet: ScraperTweet): Date {
+  if (tweet.timeParsed instanceof Date) return tweet.timeParsed;
+  if (typeof tweet.timestamp === "number") {
+    return new Date(tweet.timestamp * 1000);
+  }
+  return new Date();
+}
+
+function toSocialProfile(
+  username: string,
+  profile: ScraperProfile
+): SocialProfile {
+  return {
+    username: profile.username || username,
+    name: profile.name,
+    bio: profile.biography,
+    location: profile.location,
+    followersCount: profile.followersCount,
+    postsCount: profile.tweetsCount,
+    avatarUrl: profile.avatar,
+    profileUrl: `https://x.com/${profile.username || username}`,
+  };
+}
+
+function toPostContext(
+  tweet?: ScraperTweet | null
+): SocialPostContext | undefined {
+  if (!tweet?.text?.trim()) return undefined;
+  return {
+    author: tweet.username,
+    text: tweet.text,
+    url: tweet.permanentUrl,
+  };
+}
+
+function toSocialPost(username: string, tweet: ScraperTweet): SocialPost {
+  return {
+    id: tweet.id,
+    url:
+      tweet.permanentUrl ||
+      (tweet.id ? `https://x.com/${username}/status/${tweet.id}` : undefined),
+    text: tweet.text ?? "",
+    createdAt: getTweetDate(tweet).toISOString(),
+    likes: tweet.likes ?? 0,
+    reposts: tweet.retweets ?? 0,
+    replies: tweet.replies ?? 0,
+    quotes: 0, // Not exposed by agent-twitter-client
+    isReply: tweet.isReply,
+    isRetweet: tweet.isRetweet,
+    isQuote: tweet.isQuoted || !!tweet.quotedStatusId,
+    isPin: tweet.isPin,
+    quoted: toPostContext(tweet.quotedStatus),
+    parent: toPostContext(tweet.inReplyToStatus),
+    images: tweet.photos?.map((photo) => ({
+      url: photo.url,
+      alt: photo.alt_text,
+    })),
+  };
+}
+
+/**
+ * Fills in quoted and replied-to tweets the timeline only referenced by id.
+ * Tweets already on the timeline (self-thread continuations) are reused;
+ * the rest are fetched, at most MAX_CONTEXT_LOOKUPS of them. Missing context
+ * only makes the prompt thinner, so lookup failures are logged and skipped.
+ */
+async function addMissingContext(
+  scraper: Scraper,
+  posts: { post: SocialPost; tweet: ScraperTweet }[]
+) {
+  const known = new Map(posts.map(({ tweet }) => [tweet.id, tweet]));
+  let lookups = 0;
+
+  const resolve = async (id: string) => {
+    if (known.has(id)) return toPostContext(known.get(id));
+    if (lookups >= MAX_CONTEXT_LOOKUPS) return undefined;
+    lookups++;
+    try {
+      const tweet = await scraper.getTweet(id);
+      if (tweet) known.set(id, tweet);
+      return toPostContext(tweet);
+    } catch (error) {
+      logger.debug(
+        { err: error, tweetId: id },
+        "Could not fetch context tweet"
+      );
+      return undefined;
+    }
+  };
+
+  for (const { post, tweet } of posts) {
+    if (!post.quoted && tweet.quotedStatusId) {
+      post.quoted = await resolve(tweet.quotedStatusId);
+    }
+    if (!post.parent && tweet.inReplyToStatusId) {
+      post.parent = await resolve(tweet.inReplyToStatusId);
+    }
+  }
+}
+
+// Logged-in agent-twitter-client sessions from the account pool; filters the
+// timeline while paging so date-bounded windows stop as soon as they reach
+// older tweets.
+export const twitterScraperSource: SocialDataSource = {
+  name: "scraper",
+  isConfigured: hasTwitterAccounts,
+  fetchAccount: (username, options) =>
+    // Re-run from scratch on another pool account if this one fails
+    withTwitterScraper((scraper) =>
+      fetchWithScraper(scraper, username, options)
+    ),
+};
+
+async function fetchWithScraper(
+  scraper: Scraper,
+  username: string,
+  { tweetWindow, collectLimit, onPostsFetched }: FetchAccountOptions
+): Promise<SocialAccountData | null> {
+  const profile = await scraper.getProfile(username);
+  if (!profile) return null;
+
+  const collected: { post: SocialPost; tweet: ScraperTweet }[] = [];
+  // The generator pages through the timeline as we iterate
+  const tweetGenerator = scraper.getTweets(
+    username,
+    Math.max(getScanLimit(tweetWindow), collectLimit)
+  );
+
+  for await (const tweet of tweetGenerator) {
+    // Image-only tweets (memes, screenshots) are kept for vision models
+    if (!tweet.text?.trim() && !tweet.photos?.length) continue;
+
+    const post = toSocialPost(username, tweet);
+    const verdict = checkTweetWindow(
+      post,
+      new Date(post.createdAt),
+      tweetWindow
+    );
+    if (verdict === "stop") break;
+    if (verdict === "skip") continue;
+
+    collected.push({ post, tweet });
+    onPostsFetched?.(collected.length, collectLimit);
+    if (collected.length >= collectLimit) break;
+  }
+
+  await addMissingContext(scraper, collected);
+
+  return {
+    source: "scraper",
+    profile: toSocialProfile(username, profile),
+    posts: collected.map(({ post }) => post),
+  };
+}